@@ -12,13 +12,20 @@ program
     .version(pkg.version)
     .requiredOption('-i, --input <value>', 'OpenAPI specification, can be a path, url or string content (required)')
     .requiredOption('-o, --output <value>', 'Output directory (required)')
-    .option('-c, --client <value>', 'HTTP client to generate [fetch, xhr, node]', 'fetch')
+    .option('-c, --client <value>', 'HTTP client to generate [fetch, xhr, node, axios, angular]', 'fetch')
+    .option('--clientName <value>', 'Generate a client class with this name, instead of static services')
     .option('--useOptions', 'Use options instead of arguments')
     .option('--useUnionTypes', 'Use union types instead of enums')
+    .option('--useReadWriteModels', 'Generate separate models for readOnly and writeOnly properties')
+    .option('--errorStyle <value>', 'How services handle error responses [throw, typed, result]', 'throw')
+    .option('--useMediaTypeOverloads', 'Generate an overload per media type of the request body')
+    .option('--useValidation', 'Validate the requests and responses against the schemas of the spec')
     .option('--exportCore <value>', 'Write core files to disk', true)
     .option('--exportServices <value>', 'Write services to disk', true)
     .option('--exportModels <value>', 'Write models to disk', true)
     .option('--exportSchemas <value>', 'Write schemas to disk', false)
+    .option('--exportZod <value>', 'Write zod schemas to disk', false)
+    .option('--exportJsonSchemas <value>', 'Write JSON Schema documents to disk', false)
     .parse(process.argv);
 
 const OpenAPI = require(path.resolve(__dirname, '../dist/index.js'));
@@ -28,12 +35,19 @@ if (OpenAPI) {
         input: program.input,
         output: program.output,
         httpClient: program.client,
+        clientName: program.clientName,
         useOptions: program.useOptions,
         useUnionTypes: program.useUnionTypes,
+        useReadWriteModels: program.useReadWriteModels,
+        errorStyle: program.errorStyle,
+        useMediaTypeOverloads: program.useMediaTypeOverloads,
+        useValidation: program.useValidation,
         exportCore: JSON.parse(program.exportCore) === true,
         exportServices: JSON.parse(program.exportServices) === true,
         exportModels: JSON.parse(program.exportModels) === true,
         exportSchemas: JSON.parse(program.exportSchemas) === true,
+        exportZod: JSON.parse(program.exportZod) === true,
+        exportJsonSchemas: JSON.parse(program.exportJsonSchemas) === true,
     })
         .then(() => {
             process.exit(0);
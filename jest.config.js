@@ -13,16 +13,20 @@ module.exports = {
         },
         {
             displayName: 'E2E',
-            testEnvironment: 'node',
+            testEnvironment: '<rootDir>/test/e2e/scripts/environment.js',
             testMatch: [
                 '<rootDir>/test/e2e/v2.fetch.spec.js',
                 '<rootDir>/test/e2e/v2.xhr.spec.js',
                 '<rootDir>/test/e2e/v2.node.spec.js',
+                '<rootDir>/test/e2e/v2.axios.spec.js',
                 '<rootDir>/test/e2e/v2.babel.spec.js',
                 '<rootDir>/test/e2e/v3.fetch.spec.js',
                 '<rootDir>/test/e2e/v3.xhr.spec.js',
                 '<rootDir>/test/e2e/v3.node.spec.js',
+                '<rootDir>/test/e2e/v3.axios.spec.js',
                 '<rootDir>/test/e2e/v3.babel.spec.js',
+                '<rootDir>/test/e2e/v3.client.spec.js',
+                '<rootDir>/test/e2e/v3.angular.spec.js',
             ],
         },
     ],
@@ -0,0 +1,9 @@
+export interface DiscriminatorMapping {
+    name: string;
+    value: string;
+}
+
+export interface Discriminator {
+    propertyName: string;
+    mapping: DiscriminatorMapping[];
+}
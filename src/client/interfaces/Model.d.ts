@@ -1,20 +1,23 @@
+import type { Discriminator } from './Discriminator';
 import type { Enum } from './Enum';
 import type { Schema } from './Schema';
 
 export interface Model extends Schema {
     name: string;
-    export: 'reference' | 'generic' | 'enum' | 'array' | 'dictionary' | 'interface';
+    export: 'reference' | 'generic' | 'enum' | 'array' | 'dictionary' | 'interface' | 'const' | 'tuple' | 'union' | 'intersection';
     type: string;
     base: string;
     template: string | null;
     link: Model | null;
     description: string | null;
     default?: string;
+    isInteger?: boolean;
     imports: string[];
     extends: string[];
     enum: Enum[];
     enums: Model[];
     properties: Model[];
+    discriminator?: Discriminator;
     extendedFrom?: string[];
     extendedBy?: string[];
 }
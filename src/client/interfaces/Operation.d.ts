@@ -1,6 +1,10 @@
+import type { Model } from './Model';
+import type { OperationEncoding } from './OperationEncoding';
 import type { OperationError } from './OperationError';
+import type { OperationParameter } from './OperationParameter';
 import type { OperationParameters } from './OperationParameters';
 import type { OperationResponse } from './OperationResponse';
+import type { OperationSecurity } from './OperationSecurity';
 
 export interface Operation extends OperationParameters {
     service: string;
@@ -10,7 +14,13 @@ export interface Operation extends OperationParameters {
     deprecated: boolean;
     method: string;
     path: string;
+    mediaType: string | null;
+    encoding: OperationEncoding[];
+    requestBodies: OperationParameter[];
     errors: OperationError[];
     results: OperationResponse[];
-    responseHeader: string | null;
+    responses: OperationResponse[];
+    responseHeaders: Model[];
+    responseType: 'blob' | 'sse' | 'ndjson' | null;
+    security: OperationSecurity[][] | null;
 }
@@ -0,0 +1,4 @@
+export interface OperationEncoding {
+    name: string;
+    contentType: string;
+}
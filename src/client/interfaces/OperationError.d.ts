@@ -1,4 +1,5 @@
-export interface OperationError {
-    code: number;
+import type { OperationResponse } from './OperationResponse';
+
+export interface OperationError extends OperationResponse {
     description: string;
 }
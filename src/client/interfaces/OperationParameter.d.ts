@@ -1,6 +1,11 @@
 import type { Model } from './Model';
 
+export type OperationParameterStyle = 'simple' | 'label' | 'matrix' | 'form' | 'spaceDelimited' | 'pipeDelimited' | 'tabDelimited' | 'deepObject';
+
 export interface OperationParameter extends Model {
     in: 'path' | 'query' | 'header' | 'formData' | 'body' | 'cookie';
     prop: string;
+    style: OperationParameterStyle | null;
+    explode: boolean;
+    mediaType: string | null;
 }
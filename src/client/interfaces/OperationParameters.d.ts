@@ -8,5 +8,6 @@ export interface OperationParameters {
     parametersForm: OperationParameter[];
     parametersCookie: OperationParameter[];
     parametersHeader: OperationParameter[];
+    parametersStyled: OperationParameter[];
     parametersBody: OperationParameter | null;
 }
@@ -3,4 +3,6 @@ import type { Model } from './Model';
 export interface OperationResponse extends Model {
     in: 'response' | 'header';
     code: number;
+    mediaType: string | null;
+    headers: Model[];
 }
@@ -0,0 +1,7 @@
+export interface OperationSecurity {
+    name: string;
+    type: 'apiKey' | 'http' | 'mutualTLS' | 'oauth2' | 'openIdConnect';
+    scheme: string | null;
+    in: 'query' | 'header' | 'cookie' | null;
+    parameter: string | null;
+}
@@ -1,6 +1,7 @@
 export interface Schema {
     isDefinition: boolean;
     isReadOnly: boolean;
+    isWriteOnly: boolean;
     isRequired: boolean;
     isNullable: boolean;
     format?: 'int32' | 'int64' | 'float' | 'double' | 'string' | 'boolean' | 'byte' | 'binary' | 'date' | 'date-time' | 'password';
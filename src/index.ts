@@ -1,3 +1,5 @@
+export { bundleOpenApiSpec } from './utils/bundleOpenApiSpec';
+
 export class HttpError extends Error {
     status: number;
     data?: any;
@@ -7,3 +9,9 @@ export class HttpError extends Error {
         this.data = data;
     }
 }
+
+export enum ErrorStyle {
+    THROW = 'throw',
+    TYPED = 'typed',
+    RESULT = 'result',
+}
@@ -1,4 +1,3 @@
-import type { Dictionary } from '../../../utils/types';
 import type { OpenApiItems } from './OpenApiItems';
 
 /**
@@ -8,7 +7,7 @@ export interface OpenApiHeader {
     description?: string;
     type: 'string' | 'number' | 'integer' | 'boolean' | 'array';
     format?: 'int32' | 'int64' | 'float' | 'double' | 'string' | 'boolean' | 'byte' | 'binary' | 'date' | 'date-time' | 'password';
-    items?: Dictionary<OpenApiItems>;
+    items?: OpenApiItems;
     collectionFormat?: 'csv' | 'ssv' | 'tsv' | 'pipes';
     default?: any;
     maximum?: number;
@@ -2,5 +2,5 @@
  * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/2.0.md#securityRequirementObject
  */
 export interface OpenApiSecurityRequirement {
-    [key: string]: string;
+    [key: string]: string[];
 }
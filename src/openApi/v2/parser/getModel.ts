@@ -1,4 +1,5 @@
 import type { Model } from '../../../client/interfaces/Model';
+import { getPattern } from '../../../utils/getPattern';
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
 import { PrimaryType } from './constants';
@@ -20,6 +21,7 @@ export function getModel(openApi: OpenApi, definition: OpenApiSchema, isDefiniti
         description: getComment(definition.description),
         isDefinition: isDefinition,
         isReadOnly: definition.readOnly === true,
+        isWriteOnly: false,
         isNullable: false,
         isRequired: false,
         format: definition.format,
@@ -30,7 +32,7 @@ export function getModel(openApi: OpenApi, definition: OpenApiSchema, isDefiniti
         multipleOf: definition.multipleOf,
         maxLength: definition.maxLength,
         minLength: definition.minLength,
-        pattern: definition.pattern,
+        pattern: getPattern(definition.pattern),
         maxItems: definition.maxItems,
         minItems: definition.minItems,
         uniqueItems: definition.uniqueItems,
@@ -161,6 +163,7 @@ export function getModel(openApi: OpenApi, definition: OpenApiSchema, isDefiniti
     if (definition.type) {
         const definitionType = getType(definition.type);
         model.export = 'generic';
+        model.isInteger = definition.type === 'integer';
         model.type = definitionType.type;
         model.base = definitionType.base;
         model.template = definitionType.template;
@@ -1,4 +1,5 @@
 import type { Model } from '../../../client/interfaces/Model';
+import { getPattern } from '../../../utils/getPattern';
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
 import { getComment } from './getComment';
@@ -25,6 +26,7 @@ export function getModelProperties(openApi: OpenApi, definition: OpenApiSchema,
                     description: getComment(property.description),
                     isDefinition: false,
                     isReadOnly: property.readOnly === true,
+                    isWriteOnly: false,
                     isRequired: propertyRequired === true,
                     isNullable: false,
                     format: property.format,
@@ -35,7 +37,7 @@ export function getModelProperties(openApi: OpenApi, definition: OpenApiSchema,
                     multipleOf: property.multipleOf,
                     maxLength: property.maxLength,
                     minLength: property.minLength,
-                    pattern: property.pattern,
+                    pattern: getPattern(property.pattern),
                     maxItems: property.maxItems,
                     minItems: property.minItems,
                     uniqueItems: property.uniqueItems,
@@ -56,9 +58,11 @@ export function getModelProperties(openApi: OpenApi, definition: OpenApiSchema,
                     base: model.base,
                     template: model.template,
                     link: model.link,
+                    isInteger: model.isInteger,
                     description: getComment(property.description),
                     isDefinition: false,
                     isReadOnly: property.readOnly === true,
+                    isWriteOnly: false,
                     isRequired: propertyRequired === true,
                     isNullable: false,
                     format: property.format,
@@ -69,7 +73,7 @@ export function getModelProperties(openApi: OpenApi, definition: OpenApiSchema,
                     multipleOf: property.multipleOf,
                     maxLength: property.maxLength,
                     minLength: property.minLength,
-                    pattern: property.pattern,
+                    pattern: getPattern(property.pattern),
                     maxItems: property.maxItems,
                     minItems: property.minItems,
                     uniqueItems: property.uniqueItems,
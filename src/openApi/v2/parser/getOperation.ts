@@ -2,14 +2,17 @@ import type { Operation } from '../../../client/interfaces/Operation';
 import type { OperationParameters } from '../../../client/interfaces/OperationParameters';
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiOperation } from '../interfaces/OpenApiOperation';
+import { PrimaryType } from './constants';
 import { getComment } from './getComment';
 import { getOperationErrors } from './getOperationErrors';
+import { getOperationMediaType } from './getOperationMediaType';
 import { getOperationName } from './getOperationName';
 import { getOperationParameters } from './getOperationParameters';
 import { getOperationPath } from './getOperationPath';
-import { getOperationResponseHeader } from './getOperationResponseHeader';
+import { getOperationResponseHeaders } from './getOperationResponseHeaders';
 import { getOperationResponses } from './getOperationResponses';
 import { getOperationResults } from './getOperationResults';
+import { getOperationSecurity } from './getOperationSecurity';
 import { getServiceClassName } from './getServiceClassName';
 
 export function getOperation(openApi: OpenApi, url: string, method: string, op: OpenApiOperation, pathParams: OperationParameters): Operation {
@@ -28,17 +31,24 @@ export function getOperation(openApi: OpenApi, url: string, method: string, op:
         deprecated: op.deprecated === true,
         method: method.toUpperCase(),
         path: operationPath,
+        mediaType: null,
+        encoding: [],
+        requestBodies: [],
         parameters: [...pathParams.parameters],
         parametersPath: [...pathParams.parametersPath],
         parametersQuery: [...pathParams.parametersQuery],
         parametersForm: [...pathParams.parametersForm],
         parametersHeader: [...pathParams.parametersHeader],
         parametersCookie: [...pathParams.parametersCookie],
+        parametersStyled: [...pathParams.parametersStyled],
         parametersBody: pathParams.parametersBody,
         imports: [],
         errors: [],
         results: [],
-        responseHeader: null,
+        responses: [],
+        responseHeaders: [],
+        responseType: null,
+        security: getOperationSecurity(openApi, op.security),
     };
 
     // Parse the operation parameters (path, query, body, etc).
@@ -51,20 +61,30 @@ export function getOperation(openApi: OpenApi, url: string, method: string, op:
         operation.parametersForm.push(...parameters.parametersForm);
         operation.parametersHeader.push(...parameters.parametersHeader);
         operation.parametersCookie.push(...parameters.parametersCookie);
+        operation.parametersStyled.push(...parameters.parametersStyled);
         operation.parametersBody = parameters.parametersBody;
     }
 
+    // Get the media type of the request body or form parameters.
+    operation.mediaType = getOperationMediaType(op.consumes || openApi.consumes || [], operation);
+
     // Parse the operation responses.
     if (op.responses) {
         const operationResponses = getOperationResponses(openApi, op.responses);
         const operationResults = getOperationResults(operationResponses);
         operation.errors = getOperationErrors(operationResponses);
-        operation.responseHeader = getOperationResponseHeader(operationResults);
+        operation.responses = operationResponses;
+        operation.responseHeaders = getOperationResponseHeaders(operationResponses);
 
         operationResults.forEach(operationResult => {
             operation.results.push(operationResult);
             operation.imports.push(...operationResult.imports);
         });
+
+        // Binary results are read as a blob (or buffer), regardless of the content type of the response.
+        if (operationResults.some(operationResult => operationResult.export === 'generic' && operationResult.base === PrimaryType.FILE)) {
+            operation.responseType = 'blob';
+        }
     }
 
     return operation;
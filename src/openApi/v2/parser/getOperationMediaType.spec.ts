@@ -0,0 +1,29 @@
+import type { OperationParameter } from '../../../client/interfaces/OperationParameter';
+import type { OperationParameters } from '../../../client/interfaces/OperationParameters';
+import { getOperationMediaType } from './getOperationMediaType';
+
+describe('getOperationMediaType', () => {
+    it('should produce correct result', () => {
+        const parameter = {} as OperationParameter;
+        const parameters: OperationParameters = {
+            imports: [],
+            parameters: [],
+            parametersPath: [],
+            parametersQuery: [],
+            parametersForm: [],
+            parametersCookie: [],
+            parametersHeader: [],
+            parametersStyled: [],
+            parametersBody: null,
+        };
+        const form = { ...parameters, parametersForm: [parameter] };
+        const body = { ...parameters, parametersBody: parameter };
+        expect(getOperationMediaType(['application/json'], parameters)).toEqual(null);
+        expect(getOperationMediaType([], form)).toEqual(null);
+        expect(getOperationMediaType(['application/x-www-form-urlencoded'], form)).toEqual('application/x-www-form-urlencoded');
+        expect(getOperationMediaType(['application/x-www-form-urlencoded', 'multipart/form-data'], form)).toEqual('multipart/form-data');
+        expect(getOperationMediaType([], body)).toEqual(null);
+        expect(getOperationMediaType(['application/xml', 'application/vnd.api+json'], body)).toEqual('application/vnd.api+json');
+        expect(getOperationMediaType(['application/xml'], body)).toEqual('application/xml');
+    });
+});
@@ -0,0 +1,24 @@
+import type { OperationParameters } from '../../../client/interfaces/OperationParameters';
+
+/**
+ * Get the media type of the request, based on the media types the operation consumes.
+ * Form parameters are sent as "application/x-www-form-urlencoded" when the operation
+ * consumes this, unless it also consumes "multipart/form-data".
+ * @param consumes The media types the operation consumes
+ * @param parameters The parameters of the operation
+ */
+export function getOperationMediaType(consumes: string[], parameters: OperationParameters): string | null {
+    if (parameters.parametersForm.length) {
+        if (consumes.includes('multipart/form-data')) {
+            return 'multipart/form-data';
+        }
+        if (consumes.includes('application/x-www-form-urlencoded')) {
+            return 'application/x-www-form-urlencoded';
+        }
+        return null;
+    }
+    if (parameters.parametersBody) {
+        return consumes.find(mediaType => /^(application|text)\/([^;]+\+)?json/i.test(mediaType)) || consumes[0] || null;
+    }
+    return null;
+}
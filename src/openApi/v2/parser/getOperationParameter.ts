@@ -1,4 +1,5 @@
 import type { OperationParameter } from '../../../client/interfaces/OperationParameter';
+import { getPattern } from '../../../utils/getPattern';
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiParameter } from '../interfaces/OpenApiParameter';
 import { PrimaryType } from './constants';
@@ -9,12 +10,15 @@ import { getEnumFromDescription } from './getEnumFromDescription';
 import { getModel } from './getModel';
 import { getOperationParameterDefault } from './getOperationParameterDefault';
 import { getOperationParameterName } from './getOperationParameterName';
+import { getOperationParameterStyle } from './getOperationParameterStyle';
 import { getType } from './getType';
 
 export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParameter): OperationParameter {
     const operationParameter: OperationParameter = {
         in: parameter.in,
         prop: parameter.name,
+        ...getOperationParameterStyle(parameter),
+        mediaType: null,
         export: 'interface',
         name: getOperationParameterName(parameter.name),
         type: PrimaryType.OBJECT,
@@ -24,6 +28,7 @@ export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParame
         description: getComment(parameter.description),
         isDefinition: false,
         isReadOnly: false,
+        isWriteOnly: false,
         isRequired: parameter.required === true,
         isNullable: false,
         format: parameter.format,
@@ -34,7 +39,7 @@ export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParame
         multipleOf: parameter.multipleOf,
         maxLength: parameter.maxLength,
         minLength: parameter.minLength,
-        pattern: parameter.pattern,
+        pattern: getPattern(parameter.pattern),
         maxItems: parameter.maxItems,
         minItems: parameter.minItems,
         uniqueItems: parameter.uniqueItems,
@@ -120,6 +125,7 @@ export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParame
             operationParameter.base = model.base;
             operationParameter.template = model.template;
             operationParameter.link = model.link;
+            operationParameter.isInteger = model.isInteger;
             operationParameter.imports.push(...model.imports);
             operationParameter.extends.push(...model.extends);
             operationParameter.enum.push(...model.enum);
@@ -134,6 +140,7 @@ export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParame
     if (parameter.type) {
         const definitionType = getType(parameter.type);
         operationParameter.export = 'generic';
+        operationParameter.isInteger = parameter.type === 'integer';
         operationParameter.type = definitionType.type;
         operationParameter.base = definitionType.base;
         operationParameter.template = definitionType.template;
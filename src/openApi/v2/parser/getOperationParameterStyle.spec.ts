@@ -0,0 +1,18 @@
+import type { OpenApiParameter } from '../interfaces/OpenApiParameter';
+import { getOperationParameterStyle } from './getOperationParameterStyle';
+
+describe('getOperationParameterStyle', () => {
+    it('should produce correct result', () => {
+        const parameter = (parameter: Partial<OpenApiParameter>): OpenApiParameter => ({ name: 'ids', ...parameter } as OpenApiParameter);
+        expect(getOperationParameterStyle(parameter({ in: 'query', type: 'string' }))).toEqual({ style: null, explode: true });
+        expect(getOperationParameterStyle(parameter({ in: 'query', type: 'array' }))).toEqual({ style: 'form', explode: false });
+        expect(getOperationParameterStyle(parameter({ in: 'query', type: 'array', collectionFormat: 'csv' }))).toEqual({ style: 'form', explode: false });
+        expect(getOperationParameterStyle(parameter({ in: 'query', type: 'array', collectionFormat: 'multi' }))).toEqual({ style: null, explode: true });
+        expect(getOperationParameterStyle(parameter({ in: 'query', type: 'array', collectionFormat: 'ssv' }))).toEqual({ style: 'spaceDelimited', explode: false });
+        expect(getOperationParameterStyle(parameter({ in: 'query', type: 'array', collectionFormat: 'tsv' }))).toEqual({ style: 'tabDelimited', explode: false });
+        expect(getOperationParameterStyle(parameter({ in: 'query', type: 'array', collectionFormat: 'pipes' }))).toEqual({ style: 'pipeDelimited', explode: false });
+        expect(getOperationParameterStyle(parameter({ in: 'path', type: 'array' }))).toEqual({ style: null, explode: false });
+        expect(getOperationParameterStyle(parameter({ in: 'header', type: 'array', collectionFormat: 'pipes' }))).toEqual({ style: 'pipeDelimited', explode: false });
+        expect(getOperationParameterStyle(parameter({ in: 'formData', type: 'array', collectionFormat: 'pipes' }))).toEqual({ style: null, explode: false });
+    });
+});
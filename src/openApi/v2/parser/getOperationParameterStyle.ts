@@ -0,0 +1,27 @@
+import type { OperationParameter } from '../../../client/interfaces/OperationParameter';
+import type { OpenApiParameter } from '../interfaces/OpenApiParameter';
+
+/**
+ * Get the serialization style of a parameter based on the Swagger 2 "collectionFormat",
+ * the style is null when the parameter uses the default serialization of its location.
+ * Only array parameters in the path, query and headers are affected by this.
+ * @param parameter
+ */
+export function getOperationParameterStyle(parameter: OpenApiParameter): Pick<OperationParameter, 'style' | 'explode'> {
+    const isQuery = parameter.in === 'query';
+    if (parameter.type !== 'array' || (!isQuery && parameter.in !== 'path' && parameter.in !== 'header')) {
+        return { style: null, explode: isQuery };
+    }
+    switch (parameter.collectionFormat) {
+        case 'multi':
+            return isQuery ? { style: null, explode: true } : { style: 'simple', explode: true };
+        case 'ssv':
+            return { style: 'spaceDelimited', explode: false };
+        case 'tsv':
+            return { style: 'tabDelimited', explode: false };
+        case 'pipes':
+            return { style: 'pipeDelimited', explode: false };
+        default:
+            return isQuery ? { style: 'form', explode: false } : { style: null, explode: false };
+    }
+}
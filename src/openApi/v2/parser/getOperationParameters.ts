@@ -14,6 +14,7 @@ export function getOperationParameters(openApi: OpenApi, parameters: OpenApiPara
         parametersForm: [],
         parametersCookie: [],
         parametersHeader: [],
+        parametersStyled: [],
         parametersBody: null,
     };
 
@@ -65,5 +66,6 @@ export function getOperationParameters(openApi: OpenApi, parameters: OpenApiPara
     operationParameters.parametersForm = operationParameters.parametersForm.sort(sortByRequired);
     operationParameters.parametersCookie = operationParameters.parametersCookie.sort(sortByRequired);
     operationParameters.parametersHeader = operationParameters.parametersHeader.sort(sortByRequired);
+    operationParameters.parametersStyled = operationParameters.parameters.filter(parameter => parameter.style !== null);
     return operationParameters;
 }
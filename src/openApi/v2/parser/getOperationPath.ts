@@ -1,16 +1,17 @@
 import { getOperationParameterName } from './getOperationParameterName';
 
 /**
- * Get the final service path, this replaces the "{api-version}" placeholder
- * with a new template string placeholder so we can dynamically inject the
- * OpenAPI version without the need to hardcode this in the URL.
- * Plus we return the correct parameter names to replace in the URL.
+ * Get the final service path, the "{api-version}" placeholder (in any casing) is
+ * normalized, so the version from the OpenAPI config can be injected when the request
+ * is made, without the need to hardcode this in the URL. The other placeholders are
+ * kept as is, these are replaced by the serialized path parameters.
  * @param path
  */
 export function getOperationPath(path: string): string {
-    return path
-        .replace(/\{(.*?)\}/g, (_, w: string) => {
-            return `\${${getOperationParameterName(w)}}`;
-        })
-        .replace('${apiVersion}', '${OpenAPI.VERSION}');
+    return path.replace(/\{(.*?)\}/g, (substring: string, w: string) => {
+        if (getOperationParameterName(w) === 'apiVersion') {
+            return '{api-version}';
+        }
+        return substring;
+    });
 }
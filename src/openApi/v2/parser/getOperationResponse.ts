@@ -1,6 +1,7 @@
 import type { OperationResponse } from '../../../client/interfaces/OperationResponse';
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiResponse } from '../interfaces/OpenApiResponse';
+import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
 import { PrimaryType } from './constants';
 import { getComment } from './getComment';
 import { getModel } from './getModel';
@@ -11,6 +12,8 @@ export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse
         in: 'response',
         name: '',
         code: responseCode,
+        mediaType: null,
+        headers: [],
         description: getComment(response.description)!,
         export: 'generic',
         type: PrimaryType.OBJECT,
@@ -19,6 +22,7 @@ export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse
         link: null,
         isDefinition: false,
         isReadOnly: false,
+        isWriteOnly: false,
         isRequired: false,
         isNullable: false,
         imports: [],
@@ -28,16 +32,20 @@ export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse
         properties: [],
     };
 
-    // We support basic properties from response headers, since both
-    // fetch and XHR client just support string types.
+    // The headers of the response are returned together with the body of the
+    // response, the value of each header is converted to the type of the header.
     if (response.headers) {
         for (const name in response.headers) {
             if (response.headers.hasOwnProperty(name)) {
-                operationResponse.in = 'header';
-                operationResponse.name = name;
-                operationResponse.type = PrimaryType.STRING;
-                operationResponse.base = PrimaryType.STRING;
-                return operationResponse;
+                const header = response.headers[name];
+                const model = getModel(openApi, {
+                    type: header.type,
+                    format: header.format,
+                    items: header.items as OpenApiSchema | undefined,
+                    enum: header.enum,
+                });
+                operationResponse.headers.push({ ...model, name, description: getComment(header.description) });
+                operationResponse.imports.push(...model.imports);
             }
         }
     }
@@ -63,9 +71,11 @@ export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse
             operationResponse.template = model.template;
             operationResponse.link = model.link;
             operationResponse.isReadOnly = model.isReadOnly;
+            operationResponse.isWriteOnly = model.isWriteOnly;
             operationResponse.isRequired = model.isRequired;
             operationResponse.isNullable = model.isNullable;
             operationResponse.format = model.format;
+            operationResponse.isInteger = model.isInteger;
             operationResponse.maximum = model.maximum;
             operationResponse.exclusiveMaximum = model.exclusiveMaximum;
             operationResponse.minimum = model.minimum;
@@ -24,6 +24,8 @@ export function getOperationResults(operationResponses: OperationResponse[]): Op
             in: 'response',
             name: '',
             code: 200,
+            mediaType: null,
+            headers: [],
             description: '',
             export: 'interface',
             type: PrimaryType.OBJECT,
@@ -32,6 +34,7 @@ export function getOperationResults(operationResponses: OperationResponse[]): Op
             link: null,
             isDefinition: false,
             isReadOnly: false,
+            isWriteOnly: false,
             isRequired: false,
             isNullable: false,
             imports: [],
@@ -0,0 +1,32 @@
+import type { OperationSecurity } from '../../../client/interfaces/OperationSecurity';
+import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiSecurityRequirement } from '../interfaces/OpenApiSecurityRequirement';
+
+/**
+ * Get the security requirements of an operation, the schemes within a requirement must be
+ * satisfied together. Operations without requirements fall back to the global requirements,
+ * an empty list means the operation does not need authentication.
+ * @param openApi The OpenAPI specification
+ * @param security The security requirements of the operation
+ */
+export function getOperationSecurity(openApi: OpenApi, security?: OpenApiSecurityRequirement[]): OperationSecurity[][] | null {
+    const requirements = security || openApi.security;
+    if (!requirements) {
+        return null;
+    }
+    return requirements.map(requirement => {
+        return Object.keys(requirement).map(name => {
+            const scheme = openApi.securityDefinitions && openApi.securityDefinitions[name];
+            if (!scheme) {
+                throw new Error(`Could not find security definition "${name}"`);
+            }
+            return {
+                name,
+                type: scheme.type === 'basic' ? 'http' : scheme.type,
+                scheme: scheme.type === 'basic' ? 'basic' : null,
+                in: scheme.type === 'apiKey' && scheme.in ? scheme.in : null,
+                parameter: scheme.type === 'apiKey' && scheme.name ? scheme.name : null,
+            };
+        });
+    });
+}
@@ -1,5 +1,6 @@
 import type { Client } from '../../client/interfaces/Client';
 import type { OpenApi } from './interfaces/OpenApi';
+import { getModel } from './parser/getModel';
 import { getModels } from './parser/getModels';
 import { getServer } from './parser/getServer';
 import { getServices } from './parser/getServices';
@@ -14,7 +15,7 @@ export function parse(openApi: OpenApi): Client {
     const version = getServiceVersion(openApi.info.version);
     const server = getServer(openApi);
     const models = getModels(openApi);
-    const services = getServices(openApi);
+    const services = getServices(openApi, getModel);
 
     return { version, server, models, services };
 }
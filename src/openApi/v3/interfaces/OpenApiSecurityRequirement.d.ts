@@ -2,5 +2,5 @@
  * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.0.2.md#securityRequirementObject
  */
 export interface OpenApiSecurityRequirement {
-    [name: string]: string;
+    [name: string]: string[];
 }
@@ -52,4 +52,8 @@ export enum ContentType {
     MULTIPART_MIXED = 'multipart/mixed',
     MULTIPART_RELATED = 'multipart/related',
     MULTIPART_BATCH = 'multipart/batch',
+    APPLICATION_X_WWW_FORM_URLENCODED = 'application/x-www-form-urlencoded',
+    MULTIPART_FORM_DATA = 'multipart/form-data',
+    TEXT_EVENT_STREAM = 'text/event-stream',
+    APPLICATION_X_NDJSON = 'application/x-ndjson',
 }
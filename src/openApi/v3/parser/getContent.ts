@@ -4,28 +4,41 @@ import type { OpenApiMediaType } from '../interfaces/OpenApiMediaType';
 import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
 import { ContentType } from './constants';
 
-export function getContent(openApi: OpenApi, content: Dictionary<OpenApiMediaType>): OpenApiSchema | null {
-    /* prettier-ignore */
-    return (
-        content[ContentType.APPLICATION_JSON_PATCH] &&
-        content[ContentType.APPLICATION_JSON_PATCH].schema
-    ) || (
-        content[ContentType.APPLICATION_JSON] &&
-        content[ContentType.APPLICATION_JSON].schema
-    ) || (
-        content[ContentType.TEXT_JSON] &&
-        content[ContentType.TEXT_JSON].schema
-    ) || (
-        content[ContentType.TEXT_PAIN] &&
-        content[ContentType.TEXT_PAIN].schema
-    ) || (
-        content[ContentType.MULTIPART_MIXED] &&
-        content[ContentType.MULTIPART_MIXED].schema
-    ) || (
-        content[ContentType.MULTIPART_RELATED] &&
-        content[ContentType.MULTIPART_RELATED].schema
-    ) || (
-        content[ContentType.MULTIPART_BATCH] &&
-        content[ContentType.MULTIPART_BATCH].schema
-    ) || null;
+export interface Content {
+    mediaType: string;
+    schema: OpenApiSchema;
+}
+
+// The supported media types, in order of preference.
+const MEDIA_TYPES: string[] = [
+    ContentType.APPLICATION_JSON_PATCH,
+    ContentType.APPLICATION_JSON,
+    ContentType.TEXT_JSON,
+    ContentType.TEXT_PAIN,
+    ContentType.MULTIPART_MIXED,
+    ContentType.MULTIPART_RELATED,
+    ContentType.MULTIPART_BATCH,
+    ContentType.APPLICATION_X_WWW_FORM_URLENCODED,
+    ContentType.MULTIPART_FORM_DATA,
+];
+
+/**
+ * Get the schema of the given media type, or of the preferred media type
+ * when no media type is given. Other JSON media types (like "application/problem+json")
+ * come after the known media types, followed by any other media type.
+ * @param openApi
+ * @param content
+ * @param preferredMediaType
+ */
+export function getContent(openApi: OpenApi, content: Dictionary<OpenApiMediaType>, preferredMediaType?: string): Content | null {
+    const hasSchema = (mediaType: string): boolean => !!(content[mediaType] && content[mediaType].schema);
+    const mediaTypes = preferredMediaType ? [preferredMediaType] : [...MEDIA_TYPES, ...Object.keys(content).filter(mediaType => /\+json$/i.test(mediaType)), ...Object.keys(content)];
+    const mediaType = mediaTypes.find(hasSchema);
+    if (mediaType) {
+        return {
+            mediaType,
+            schema: content[mediaType].schema as OpenApiSchema,
+        };
+    }
+    return null;
 }
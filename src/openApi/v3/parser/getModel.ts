@@ -6,6 +6,7 @@ import { extendEnum } from './extendEnum';
 import { getComment } from './getComment';
 import { getEnum } from './getEnum';
 import { getEnumFromDescription } from './getEnumFromDescription';
+import { getModelComposition } from './getModelComposition';
 import { getModelDefault } from './getModelDefault';
 import { getModelProperties } from './getModelProperties';
 import { getType } from './getType';
@@ -21,6 +22,7 @@ export function getModel(openApi: OpenApi, definition: OpenApiSchema, isDefiniti
         description: getComment(definition.description),
         isDefinition: isDefinition,
         isReadOnly: definition.readOnly === true,
+        isWriteOnly: definition.writeOnly === true,
         isNullable: definition.nullable === true,
         isRequired: false,
         imports: [],
@@ -112,33 +114,34 @@ export function getModel(openApi: OpenApi, definition: OpenApiSchema, isDefiniti
         }
     }
 
-    // TODO:
-    //  Add correct support for oneOf, anyOf, allOf
-    //  https://swagger.io/docs/specification/data-models/oneof-anyof-allof-not/
+    const compositionDefinitions = definition.oneOf && definition.oneOf.length ? definition.oneOf : definition.anyOf;
+    if (compositionDefinitions && compositionDefinitions.length) {
+        const composition = getModelComposition(openApi, definition, compositionDefinitions, getModel);
+        model.discriminator = composition.discriminator;
+        model.isNullable = model.isNullable || composition.isNullable;
 
-    if (definition.anyOf && definition.anyOf.length && !definition.properties) {
-        model.export = 'generic';
-        const compositionTypes = definition.anyOf.filter(type => type.$ref).map(type => getType(type.$ref));
-        const composition = compositionTypes
-            .map(type => type.type)
-            .sort()
-            .join(' | ');
-        model.imports.push(...compositionTypes.map(type => type.base));
-        model.type = composition;
-        model.base = composition;
-        return model;
-    }
+        if (!definition.properties && !definition.allOf) {
+            model.export = composition.export;
+            model.type = composition.type;
+            model.base = composition.base;
+            model.imports.push(...composition.imports);
+            model.properties.push(...composition.properties);
+            return model;
+        }
 
-    if (definition.oneOf && definition.oneOf.length && !definition.properties) {
-        model.export = 'generic';
-        const compositionTypes = definition.oneOf.filter(type => type.$ref).map(type => getType(type.$ref));
-        const composition = compositionTypes
-            .map(type => type.type)
-            .sort()
-            .join(' | ');
-        model.imports.push(...compositionTypes.map(type => type.base));
-        model.type = composition;
-        model.base = composition;
+        // Properties (or parents) next to the composition are shared by all members,
+        // so we generate an intersection: "{ name: string } & (Cat | Dog)".
+        model.export = 'intersection';
+        if (definition.allOf) {
+            model.properties.push(...definition.allOf.map(parent => getModel(openApi, parent)));
+        }
+        if (definition.properties) {
+            model.properties.push(getModel(openApi, { type: 'object', properties: definition.properties, required: definition.required }));
+        }
+        model.properties.push(composition);
+        model.properties.forEach(property => model.imports.push(...property.imports));
+        model.type = model.properties.map(property => property.type).join(' & ');
+        model.base = model.type;
         return model;
     }
 
@@ -182,10 +185,12 @@ export function getModel(openApi: OpenApi, definition: OpenApiSchema, isDefiniti
         return model;
     }
 
-    // If the schema has a type than it can be a basic or generic type.
+    // If the schema has a type than it can be a basic or generic type, binary
+    // strings (like file uploads and downloads) are handled as files.
     if (definition.type) {
-        const definitionType = getType(definition.type);
+        const definitionType = getType(definition.format === 'binary' ? 'file' : definition.type);
         model.export = 'generic';
+        model.isInteger = definition.type === 'integer';
         model.type = definitionType.type;
         model.base = definitionType.base;
         model.template = definitionType.template;
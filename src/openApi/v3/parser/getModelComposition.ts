@@ -0,0 +1,169 @@
+import type { DiscriminatorMapping } from '../../../client/interfaces/Discriminator';
+import type { Model } from '../../../client/interfaces/Model';
+import { getStringLiteral } from '../../../utils/getStringLiteral';
+import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiDiscriminator } from '../interfaces/OpenApiDiscriminator';
+import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
+import { PrimaryType } from './constants';
+import type { GetModel } from './getModelProperties';
+import { getType } from './getType';
+
+/**
+ * Get the value of the discriminator property for the given reference. This is the key
+ * in the mapping that points to the reference, or the name of the referenced schema.
+ * @param discriminator The discriminator of the composition
+ * @param ref The reference of the member
+ */
+function getDiscriminatorValue(discriminator: OpenApiDiscriminator, ref: string): string {
+    const name = getType(ref).base;
+    if (discriminator.mapping) {
+        for (const value in discriminator.mapping) {
+            if (discriminator.mapping.hasOwnProperty(value)) {
+                const mapping = discriminator.mapping[value];
+                if (mapping === ref || mapping === name) {
+                    return value;
+                }
+            }
+        }
+    }
+    return name;
+}
+
+/**
+ * Get the key of the discriminator property in a type literal, names that
+ * are not a valid identifier (like "pet-type") are written as a string.
+ * @param propertyName The name of the discriminator property
+ */
+function getPropertyKey(propertyName: string): string {
+    return /^[a-zA-Z_$][\w$]*$/.test(propertyName) ? propertyName : getStringLiteral(propertyName);
+}
+
+/**
+ * Narrow the member of a discriminated union, this converts the member "Cat" to
+ * "Cat & { petType: 'cat' }", so TypeScript can use the tag to narrow the union.
+ * @param member The member of the composition
+ * @param propertyName The name of the discriminator property
+ * @param value The literal value of the discriminator property
+ */
+function getDiscriminatedMember(member: Model, propertyName: string, value: string): Model {
+    const key = getPropertyKey(propertyName);
+    const tag: Model = {
+        name: key,
+        export: 'const',
+        type: value,
+        base: value,
+        template: null,
+        link: null,
+        description: null,
+        isDefinition: false,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired: true,
+        isNullable: false,
+        imports: [],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [],
+    };
+    const tagInterface: Model = {
+        name: '',
+        export: 'interface',
+        type: PrimaryType.OBJECT,
+        base: PrimaryType.OBJECT,
+        template: null,
+        link: null,
+        description: null,
+        isDefinition: false,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired: false,
+        isNullable: false,
+        imports: [],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [tag],
+    };
+    return {
+        name: '',
+        export: 'intersection',
+        type: `${member.type} & { ${key}: ${value} }`,
+        base: `${member.type} & { ${key}: ${value} }`,
+        template: null,
+        link: null,
+        description: null,
+        isDefinition: false,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired: false,
+        isNullable: false,
+        imports: [...member.imports],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [member, tagInterface],
+    };
+}
+
+/**
+ * Get the union model for a "oneOf" or "anyOf" composition. Members can be references
+ * or inline schemas, if the definition has a discriminator then each referenced member
+ * is narrowed with the literal value of the discriminator property.
+ * @param openApi The OpenAPI spec
+ * @param definition The schema that contains the composition
+ * @param definitions The members of the composition
+ * @param getModel Function to parse the (inline) members
+ */
+export function getModelComposition(openApi: OpenApi, definition: OpenApiSchema, definitions: OpenApiSchema[], getModel: GetModel): Model {
+    const composition: Model = {
+        name: '',
+        export: 'union',
+        type: PrimaryType.OBJECT,
+        base: PrimaryType.OBJECT,
+        template: null,
+        link: null,
+        description: null,
+        isDefinition: false,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired: false,
+        isNullable: false,
+        imports: [],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [],
+    };
+
+    const mapping: DiscriminatorMapping[] = [];
+    definitions.forEach(memberDefinition => {
+        // A "null" member only makes the composition nullable.
+        if (memberDefinition.type === 'null') {
+            composition.isNullable = true;
+            return;
+        }
+
+        let member = getModel(openApi, memberDefinition);
+        if (definition.discriminator && memberDefinition.$ref) {
+            const value = getStringLiteral(getDiscriminatorValue(definition.discriminator, memberDefinition.$ref));
+            member = getDiscriminatedMember(member, definition.discriminator.propertyName, value);
+            mapping.push({
+                name: getType(memberDefinition.$ref).base,
+                value,
+            });
+        }
+        composition.properties.push(member);
+        composition.imports.push(...member.imports);
+    });
+
+    composition.type = composition.properties.map(property => property.type).join(' | ');
+    composition.base = composition.type;
+    if (definition.discriminator && mapping.length) {
+        composition.discriminator = {
+            propertyName: getStringLiteral(definition.discriminator.propertyName),
+            mapping,
+        };
+    }
+    return composition;
+}
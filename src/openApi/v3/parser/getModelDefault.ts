@@ -10,7 +10,8 @@ export function getModelDefault(definition: OpenApiSchema, model?: Model): strin
         return 'null';
     }
 
-    const type = definition.type || typeof definition.default;
+    // An OpenAPI 3.1 schema can have a list of types, then we use the type of the value itself
+    const type = (typeof definition.type === 'string' && definition.type) || typeof definition.default;
 
     switch (type) {
         case 'int':
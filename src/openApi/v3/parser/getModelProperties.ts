@@ -1,12 +1,21 @@
 import type { Model } from '../../../client/interfaces/Model';
+import { getPattern } from '../../../utils/getPattern';
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
 import { getComment } from './getComment';
 import { getType } from './getType';
 
-// Fix for circular dependency between getModel and getModelProperties
+// Fix for circular dependency between getModel and getModelProperties, this also
+// lets the OpenAPI 3.1 parser reuse these functions with its own getModel.
 export type GetModel = (openApi: OpenApi, definition: OpenApiSchema, isDefinition?: boolean, name?: string) => Model;
 
+/**
+ * Get the properties of the schema. The exclusive limits are a boolean flag in OpenAPI 3.0
+ * and the limit itself in OpenAPI 3.1 (JSON Schema), both are converted to the model.
+ * @param openApi The OpenAPI spec
+ * @param definition The schema that contains the properties
+ * @param getModel Function to parse the (inline) properties
+ */
 export function getModelProperties(openApi: OpenApi, definition: OpenApiSchema, getModel: GetModel): Model[] {
     const models: Model[] = [];
     for (const propertyName in definition.properties) {
@@ -25,17 +34,18 @@ export function getModelProperties(openApi: OpenApi, definition: OpenApiSchema,
                     description: getComment(property.description),
                     isDefinition: false,
                     isReadOnly: property.readOnly === true,
+                    isWriteOnly: property.writeOnly === true,
                     isRequired: propertyRequired === true,
                     isNullable: property.nullable === true,
                     format: property.format,
-                    maximum: property.maximum,
-                    exclusiveMaximum: property.exclusiveMaximum,
-                    minimum: property.minimum,
-                    exclusiveMinimum: property.exclusiveMinimum,
+                    maximum: typeof property.exclusiveMaximum === 'number' ? property.exclusiveMaximum : property.maximum,
+                    exclusiveMaximum: typeof property.exclusiveMaximum === 'number' || property.exclusiveMaximum,
+                    minimum: typeof property.exclusiveMinimum === 'number' ? property.exclusiveMinimum : property.minimum,
+                    exclusiveMinimum: typeof property.exclusiveMinimum === 'number' || property.exclusiveMinimum,
                     multipleOf: property.multipleOf,
                     maxLength: property.maxLength,
                     minLength: property.minLength,
-                    pattern: property.pattern,
+                    pattern: getPattern(property.pattern),
                     maxItems: property.maxItems,
                     minItems: property.minItems,
                     uniqueItems: property.uniqueItems,
@@ -56,20 +66,22 @@ export function getModelProperties(openApi: OpenApi, definition: OpenApiSchema,
                     base: model.base,
                     template: model.template,
                     link: model.link,
+                    isInteger: model.isInteger,
                     description: getComment(property.description),
                     isDefinition: false,
                     isReadOnly: property.readOnly === true,
+                    isWriteOnly: property.writeOnly === true,
                     isRequired: propertyRequired === true,
-                    isNullable: property.nullable === true,
+                    isNullable: model.isNullable,
                     format: property.format,
-                    maximum: property.maximum,
-                    exclusiveMaximum: property.exclusiveMaximum,
-                    minimum: property.minimum,
-                    exclusiveMinimum: property.exclusiveMinimum,
+                    maximum: typeof property.exclusiveMaximum === 'number' ? property.exclusiveMaximum : property.maximum,
+                    exclusiveMaximum: typeof property.exclusiveMaximum === 'number' || property.exclusiveMaximum,
+                    minimum: typeof property.exclusiveMinimum === 'number' ? property.exclusiveMinimum : property.minimum,
+                    exclusiveMinimum: typeof property.exclusiveMinimum === 'number' || property.exclusiveMinimum,
                     multipleOf: property.multipleOf,
                     maxLength: property.maxLength,
                     minLength: property.minLength,
-                    pattern: property.pattern,
+                    pattern: getPattern(property.pattern),
                     maxItems: property.maxItems,
                     minItems: property.minItems,
                     uniqueItems: property.uniqueItems,
@@ -3,20 +3,25 @@ import type { OperationParameters } from '../../../client/interfaces/OperationPa
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiOperation } from '../interfaces/OpenApiOperation';
 import type { OpenApiRequestBody } from '../interfaces/OpenApiRequestBody';
+import { ContentType, PrimaryType } from './constants';
 import { getComment } from './getComment';
+import type { GetModel } from './getModelProperties';
+import { getOperationEncoding } from './getOperationEncoding';
 import { getOperationErrors } from './getOperationErrors';
 import { getOperationName } from './getOperationName';
 import { getOperationParameters } from './getOperationParameters';
 import { getOperationPath } from './getOperationPath';
+import { getOperationRequestBodies } from './getOperationRequestBodies';
 import { getOperationRequestBody } from './getOperationRequestBody';
-import { getOperationResponseHeader } from './getOperationResponseHeader';
+import { getOperationResponseHeaders } from './getOperationResponseHeaders';
 import { getOperationResponses } from './getOperationResponses';
 import { getOperationResults } from './getOperationResults';
+import { getOperationSecurity } from './getOperationSecurity';
 import { getRef } from './getRef';
 import { getServiceClassName } from './getServiceClassName';
 import { sortByRequired } from './sortByRequired';
 
-export function getOperation(openApi: OpenApi, url: string, method: string, op: OpenApiOperation, pathParams: OperationParameters): Operation {
+export function getOperation(openApi: OpenApi, url: string, method: string, op: OpenApiOperation, pathParams: OperationParameters, getModel: GetModel): Operation {
     const serviceName = (op.tags && op.tags[0]) || 'Service';
     const serviceClassName = getServiceClassName(serviceName);
     const operationNameFallback = `${method}${serviceClassName}`;
@@ -32,22 +37,29 @@ export function getOperation(openApi: OpenApi, url: string, method: string, op:
         deprecated: op.deprecated === true,
         method: method.toUpperCase(),
         path: operationPath,
+        mediaType: null,
+        encoding: [],
+        requestBodies: [],
         parameters: [...pathParams.parameters],
         parametersPath: [...pathParams.parametersPath],
         parametersQuery: [...pathParams.parametersQuery],
         parametersForm: [...pathParams.parametersForm],
         parametersHeader: [...pathParams.parametersHeader],
         parametersCookie: [...pathParams.parametersCookie],
+        parametersStyled: [...pathParams.parametersStyled],
         parametersBody: pathParams.parametersBody,
         imports: [],
         errors: [],
         results: [],
-        responseHeader: null,
+        responses: [],
+        responseHeaders: [],
+        responseType: null,
+        security: getOperationSecurity(openApi, op.security),
     };
 
     // Parse the operation parameters (path, query, body, etc).
     if (op.parameters) {
-        const parameters = getOperationParameters(openApi, op.parameters);
+        const parameters = getOperationParameters(openApi, op.parameters, getModel);
         operation.imports.push(...parameters.imports);
         operation.parameters.push(...parameters.parameters);
         operation.parametersPath.push(...parameters.parametersPath);
@@ -55,30 +67,45 @@ export function getOperation(openApi: OpenApi, url: string, method: string, op:
         operation.parametersForm.push(...parameters.parametersForm);
         operation.parametersHeader.push(...parameters.parametersHeader);
         operation.parametersCookie.push(...parameters.parametersCookie);
+        operation.parametersStyled.push(...parameters.parametersStyled);
         operation.parametersBody = parameters.parametersBody;
     }
 
     // TODO: form data goes wrong here: https://github.com/ferdikoomen/openapi-typescript-codegen/issues/257§
     if (op.requestBody) {
         const requestBodyDef = getRef<OpenApiRequestBody>(openApi, op.requestBody);
-        const requestBody = getOperationRequestBody(openApi, requestBodyDef);
+        const requestBody = getOperationRequestBody(openApi, requestBodyDef, getModel);
         operation.imports.push(...requestBody.imports);
         operation.parameters.push(requestBody);
         operation.parameters = operation.parameters.sort(sortByRequired);
         operation.parametersBody = requestBody;
+        operation.mediaType = requestBody.mediaType;
+        operation.encoding = getOperationEncoding(requestBodyDef.content || {});
+        operation.requestBodies = getOperationRequestBodies(openApi, requestBodyDef, getModel);
     }
 
     // Parse the operation responses.
     if (op.responses) {
-        const operationResponses = getOperationResponses(openApi, op.responses);
+        const operationResponses = getOperationResponses(openApi, op.responses, getModel);
         const operationResults = getOperationResults(operationResponses);
         operation.errors = getOperationErrors(operationResponses);
-        operation.responseHeader = getOperationResponseHeader(operationResults);
+        operation.responses = operationResponses;
+        operation.responseHeaders = getOperationResponseHeaders(operationResponses);
 
         operationResults.forEach(operationResult => {
             operation.results.push(operationResult);
             operation.imports.push(...operationResult.imports);
         });
+
+        // Binary results are read as a blob (or buffer), regardless of the content type of the response.
+        // Streaming results are read as an async iterable of the items (or events) of the response.
+        if (operationResults.some(operationResult => operationResult.export === 'generic' && operationResult.base === PrimaryType.FILE)) {
+            operation.responseType = 'blob';
+        } else if (operationResults.some(operationResult => operationResult.mediaType === ContentType.TEXT_EVENT_STREAM)) {
+            operation.responseType = 'sse';
+        } else if (operationResults.some(operationResult => operationResult.mediaType === ContentType.APPLICATION_X_NDJSON)) {
+            operation.responseType = 'ndjson';
+        }
     }
 
     return operation;
@@ -0,0 +1,20 @@
+import type { OperationEncoding } from '../../../client/interfaces/OperationEncoding';
+import type { Dictionary } from '../../../utils/types';
+import type { OpenApiMediaType } from '../interfaces/OpenApiMediaType';
+import { ContentType } from './constants';
+
+/**
+ * Get the content types of the parts of a multipart request body,
+ * as specified in the "encoding" of the "multipart/form-data" media type.
+ * @param content
+ */
+export function getOperationEncoding(content: Dictionary<OpenApiMediaType>): OperationEncoding[] {
+    const mediaType = content[ContentType.MULTIPART_FORM_DATA];
+    const encoding = (mediaType && mediaType.encoding) || {};
+    return Object.keys(encoding)
+        .filter(name => encoding[name].contentType)
+        .map(name => ({
+            name,
+            contentType: encoding[name].contentType as string,
+        }));
+}
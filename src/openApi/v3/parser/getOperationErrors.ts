@@ -7,7 +7,7 @@ export function getOperationErrors(operationResponses: OperationResponse[]): Ope
             return operationResponse.code >= 300 && operationResponse.description;
         })
         .map(response => ({
-            code: response.code,
+            ...response,
             description: response.description!,
         }));
 }
@@ -3,15 +3,18 @@ import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiParameter } from '../interfaces/OpenApiParameter';
 import { PrimaryType } from './constants';
 import { getComment } from './getComment';
-import { getModel } from './getModel';
 import { getModelDefault } from './getModelDefault';
+import type { GetModel } from './getModelProperties';
 import { getOperationParameterName } from './getOperationParameterName';
+import { getOperationParameterStyle } from './getOperationParameterStyle';
 import { getType } from './getType';
 
-export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParameter): OperationParameter {
+export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParameter, getModel: GetModel): OperationParameter {
     const operationParameter: OperationParameter = {
         in: parameter.in,
         prop: parameter.name,
+        ...getOperationParameterStyle(parameter.in, parameter.style, parameter.explode),
+        mediaType: null,
         export: 'interface',
         name: getOperationParameterName(parameter.name),
         type: PrimaryType.OBJECT,
@@ -21,6 +24,7 @@ export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParame
         description: getComment(parameter.description),
         isDefinition: false,
         isReadOnly: false,
+        isWriteOnly: false,
         isRequired: parameter.required === true,
         isNullable: parameter.nullable === true,
         imports: [],
@@ -58,9 +62,11 @@ export function getOperationParameter(openApi: OpenApi, parameter: OpenApiParame
             operationParameter.template = model.template;
             operationParameter.link = model.link;
             operationParameter.isReadOnly = model.isReadOnly;
+            operationParameter.isWriteOnly = model.isWriteOnly;
             operationParameter.isRequired = operationParameter.isRequired || model.isRequired;
             operationParameter.isNullable = operationParameter.isNullable || model.isNullable;
             operationParameter.format = model.format;
+            operationParameter.isInteger = model.isInteger;
             operationParameter.maximum = model.maximum;
             operationParameter.exclusiveMaximum = model.exclusiveMaximum;
             operationParameter.minimum = model.minimum;
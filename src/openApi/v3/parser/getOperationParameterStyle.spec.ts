@@ -0,0 +1,17 @@
+import { getOperationParameterStyle } from './getOperationParameterStyle';
+
+describe('getOperationParameterStyle', () => {
+    it('should produce correct result', () => {
+        expect(getOperationParameterStyle('query')).toEqual({ style: null, explode: true });
+        expect(getOperationParameterStyle('query', 'form')).toEqual({ style: null, explode: true });
+        expect(getOperationParameterStyle('query', 'form', false)).toEqual({ style: 'form', explode: false });
+        expect(getOperationParameterStyle('query', 'pipeDelimited')).toEqual({ style: 'pipeDelimited', explode: false });
+        expect(getOperationParameterStyle('query', 'deepObject', true)).toEqual({ style: 'deepObject', explode: true });
+        expect(getOperationParameterStyle('cookie', 'form', true)).toEqual({ style: null, explode: true });
+        expect(getOperationParameterStyle('path')).toEqual({ style: null, explode: false });
+        expect(getOperationParameterStyle('path', 'simple', true)).toEqual({ style: 'simple', explode: true });
+        expect(getOperationParameterStyle('path', 'label')).toEqual({ style: 'label', explode: false });
+        expect(getOperationParameterStyle('path', 'matrix', true)).toEqual({ style: 'matrix', explode: true });
+        expect(getOperationParameterStyle('header', 'simple', false)).toEqual({ style: null, explode: false });
+    });
+});
@@ -0,0 +1,20 @@
+import type { OperationParameter, OperationParameterStyle } from '../../../client/interfaces/OperationParameter';
+
+/**
+ * Get the serialization style of a parameter, the style is null when the parameter
+ * uses the default serialization of its location (form for query and cookie
+ * parameters, simple for path and header parameters).
+ * @param location The location of the parameter
+ * @param style The style from the spec (optional)
+ * @param explode The explode flag from the spec (optional)
+ */
+export function getOperationParameterStyle(location: string, style?: string, explode?: boolean): Pick<OperationParameter, 'style' | 'explode'> {
+    const defaultStyle = location === 'query' || location === 'cookie' ? 'form' : 'simple';
+    const parameterStyle = (style || defaultStyle) as OperationParameterStyle;
+    const parameterExplode = explode === undefined ? parameterStyle === 'form' : explode;
+    const isDefault = parameterStyle === defaultStyle && parameterExplode === (defaultStyle === 'form');
+    return {
+        style: isDefault ? null : parameterStyle,
+        explode: parameterExplode,
+    };
+}
@@ -1,11 +1,12 @@
 import type { OperationParameters } from '../../../client/interfaces/OperationParameters';
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiParameter } from '../interfaces/OpenApiParameter';
+import type { GetModel } from './getModelProperties';
 import { getOperationParameter } from './getOperationParameter';
 import { getRef } from './getRef';
 import { sortByRequired } from './sortByRequired';
 
-export function getOperationParameters(openApi: OpenApi, parameters: OpenApiParameter[]): OperationParameters {
+export function getOperationParameters(openApi: OpenApi, parameters: OpenApiParameter[], getModel: GetModel): OperationParameters {
     const operationParameters: OperationParameters = {
         imports: [],
         parameters: [],
@@ -14,13 +15,14 @@ export function getOperationParameters(openApi: OpenApi, parameters: OpenApiPara
         parametersForm: [],
         parametersCookie: [],
         parametersHeader: [],
+        parametersStyled: [],
         parametersBody: null, // Not used in V3 -> @see requestBody
     };
 
     // Iterate over the parameters
     parameters.forEach(parameterOrReference => {
         const parameterDef = getRef<OpenApiParameter>(openApi, parameterOrReference);
-        const parameter = getOperationParameter(openApi, parameterDef);
+        const parameter = getOperationParameter(openApi, parameterDef, getModel);
 
         // We ignore the "api-version" param, since we do not want to add this
         // as the first / default parameter for each of the service calls.
@@ -65,5 +67,6 @@ export function getOperationParameters(openApi: OpenApi, parameters: OpenApiPara
     operationParameters.parametersForm = operationParameters.parametersForm.sort(sortByRequired);
     operationParameters.parametersCookie = operationParameters.parametersCookie.sort(sortByRequired);
     operationParameters.parametersHeader = operationParameters.parametersHeader.sort(sortByRequired);
+    operationParameters.parametersStyled = operationParameters.parameters.filter(parameter => parameter.style !== null);
     return operationParameters;
 }
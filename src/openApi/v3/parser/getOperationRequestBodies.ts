@@ -0,0 +1,18 @@
+import type { OperationParameter } from '../../../client/interfaces/OperationParameter';
+import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiRequestBody } from '../interfaces/OpenApiRequestBody';
+import type { GetModel } from './getModelProperties';
+import { getOperationRequestBody } from './getOperationRequestBody';
+
+/**
+ * Get the request body for each of the media types of the operation.
+ * @param openApi
+ * @param parameter
+ * @param getModel
+ */
+export function getOperationRequestBodies(openApi: OpenApi, parameter: OpenApiRequestBody, getModel: GetModel): OperationParameter[] {
+    const content = parameter.content || {};
+    return Object.keys(content)
+        .filter(mediaType => content[mediaType].schema)
+        .map(mediaType => getOperationRequestBody(openApi, parameter, getModel, mediaType));
+}
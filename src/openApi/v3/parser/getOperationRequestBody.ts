@@ -4,13 +4,24 @@ import type { OpenApiRequestBody } from '../interfaces/OpenApiRequestBody';
 import { PrimaryType } from './constants';
 import { getComment } from './getComment';
 import { getContent } from './getContent';
-import { getModel } from './getModel';
+import type { GetModel } from './getModelProperties';
 import { getType } from './getType';
 
-export function getOperationRequestBody(openApi: OpenApi, parameter: OpenApiRequestBody): OperationParameter {
+/**
+ * Get the request body of the operation, using the given media type or the
+ * preferred media type when no media type is given.
+ * @param openApi
+ * @param parameter
+ * @param getModel
+ * @param mediaType
+ */
+export function getOperationRequestBody(openApi: OpenApi, parameter: OpenApiRequestBody, getModel: GetModel, mediaType?: string): OperationParameter {
     const requestBody: OperationParameter = {
         in: 'body',
         prop: 'body',
+        style: null,
+        explode: false,
+        mediaType: null,
         export: 'interface',
         name: 'requestBody',
         type: PrimaryType.OBJECT,
@@ -21,6 +32,7 @@ export function getOperationRequestBody(openApi: OpenApi, parameter: OpenApiRequ
         default: undefined,
         isDefinition: false,
         isReadOnly: false,
+        isWriteOnly: false,
         isRequired: parameter.required === true,
         isNullable: parameter.nullable === true,
         imports: [],
@@ -31,8 +43,10 @@ export function getOperationRequestBody(openApi: OpenApi, parameter: OpenApiRequ
     };
 
     if (parameter.content) {
-        const schema = getContent(openApi, parameter.content);
-        if (schema) {
+        const content = getContent(openApi, parameter.content, mediaType);
+        if (content) {
+            const schema = content.schema;
+            requestBody.mediaType = content.mediaType;
             if (schema && schema.$ref) {
                 const model = getType(schema.$ref);
                 requestBody.export = 'reference';
@@ -49,9 +63,11 @@ export function getOperationRequestBody(openApi: OpenApi, parameter: OpenApiRequ
                 requestBody.template = model.template;
                 requestBody.link = model.link;
                 requestBody.isReadOnly = model.isReadOnly;
+                requestBody.isWriteOnly = model.isWriteOnly;
                 requestBody.isRequired = requestBody.isRequired || model.isRequired;
                 requestBody.isNullable = requestBody.isNullable || model.isNullable;
                 requestBody.format = model.format;
+                requestBody.isInteger = model.isInteger;
                 requestBody.maximum = model.maximum;
                 requestBody.exclusiveMaximum = model.exclusiveMaximum;
                 requestBody.minimum = model.minimum;
@@ -1,17 +1,21 @@
 import type { OperationResponse } from '../../../client/interfaces/OperationResponse';
 import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiHeader } from '../interfaces/OpenApiHeader';
 import type { OpenApiResponse } from '../interfaces/OpenApiResponse';
 import { PrimaryType } from './constants';
 import { getComment } from './getComment';
 import { getContent } from './getContent';
-import { getModel } from './getModel';
+import type { GetModel } from './getModelProperties';
+import { getRef } from './getRef';
 import { getType } from './getType';
 
-export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse, responseCode: number): OperationResponse {
+export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse, responseCode: number, getModel: GetModel): OperationResponse {
     const operationResponse: OperationResponse = {
         in: 'response',
         name: '',
         code: responseCode,
+        mediaType: null,
+        headers: [],
         description: getComment(response.description)!,
         export: 'generic',
         type: PrimaryType.OBJECT,
@@ -20,6 +24,7 @@ export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse
         link: null,
         isDefinition: false,
         isReadOnly: false,
+        isWriteOnly: false,
         isRequired: false,
         isNullable: false,
         imports: [],
@@ -29,23 +34,29 @@ export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse
         properties: [],
     };
 
-    // We support basic properties from response headers, since both
-    // fetch and XHR client just support string types.
+    // The headers of the response are returned together with the body of the
+    // response, the value of each header is converted to the type of the header.
     if (response.headers) {
         for (const name in response.headers) {
             if (response.headers.hasOwnProperty(name)) {
-                operationResponse.in = 'header';
-                operationResponse.name = name;
-                operationResponse.type = PrimaryType.STRING;
-                operationResponse.base = PrimaryType.STRING;
-                return operationResponse;
+                const header = getRef<OpenApiHeader>(openApi, response.headers[name]);
+                const model = getModel(openApi, header.schema || { type: PrimaryType.STRING });
+                operationResponse.headers.push({
+                    ...model,
+                    name,
+                    description: getComment(header.description),
+                    isRequired: header.required === true,
+                });
+                operationResponse.imports.push(...model.imports);
             }
         }
     }
 
     if (response.content) {
-        const schema = getContent(openApi, response.content);
-        if (schema) {
+        const content = getContent(openApi, response.content);
+        const schema = content && content.schema;
+        if (content && schema) {
+            operationResponse.mediaType = content.mediaType;
             if (schema && schema.$ref) {
                 const model = getType(schema.$ref);
                 operationResponse.export = 'reference';
@@ -62,9 +73,11 @@ export function getOperationResponse(openApi: OpenApi, response: OpenApiResponse
                 operationResponse.template = model.template;
                 operationResponse.link = model.link;
                 operationResponse.isReadOnly = model.isReadOnly;
+                operationResponse.isWriteOnly = model.isWriteOnly;
                 operationResponse.isRequired = model.isRequired;
                 operationResponse.isNullable = model.isNullable;
                 operationResponse.format = model.format;
+                operationResponse.isInteger = model.isInteger;
                 operationResponse.maximum = model.maximum;
                 operationResponse.exclusiveMaximum = model.exclusiveMaximum;
                 operationResponse.minimum = model.minimum;
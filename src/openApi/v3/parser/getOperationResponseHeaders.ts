@@ -0,0 +1,21 @@
+import type { Model } from '../../../client/interfaces/Model';
+import type { OperationResponse } from '../../../client/interfaces/OperationResponse';
+
+/**
+ * Get the headers of all the responses of the operation, a header is only
+ * required when all the successful responses define it as a required header.
+ * @param operationResponses The responses of the operation
+ */
+export function getOperationResponseHeaders(operationResponses: OperationResponse[]): Model[] {
+    const operationResults = operationResponses.filter(operationResponse => operationResponse.code >= 200 && operationResponse.code < 300);
+    const headers: Model[] = [];
+    operationResponses.forEach(operationResponse => {
+        operationResponse.headers.forEach(header => {
+            if (!headers.some(item => item.name === header.name)) {
+                const isRequired = operationResults.every(result => result.headers.some(item => item.name === header.name && item.isRequired));
+                headers.push({ ...header, isRequired });
+            }
+        });
+    });
+    return headers;
+}
@@ -2,11 +2,12 @@ import type { OperationResponse } from '../../../client/interfaces/OperationResp
 import type { OpenApi } from '../interfaces/OpenApi';
 import type { OpenApiResponse } from '../interfaces/OpenApiResponse';
 import type { OpenApiResponses } from '../interfaces/OpenApiResponses';
+import type { GetModel } from './getModelProperties';
 import { getOperationResponse } from './getOperationResponse';
 import { getOperationResponseCode } from './getOperationResponseCode';
 import { getRef } from './getRef';
 
-export function getOperationResponses(openApi: OpenApi, responses: OpenApiResponses): OperationResponse[] {
+export function getOperationResponses(openApi: OpenApi, responses: OpenApiResponses, getModel: GetModel): OperationResponse[] {
     const operationResponses: OperationResponse[] = [];
 
     // Iterate over each response code and get the
@@ -18,7 +19,7 @@ export function getOperationResponses(openApi: OpenApi, responses: OpenApiRespon
             const responseCode = getOperationResponseCode(code);
 
             if (responseCode) {
-                operationResponses.push(getOperationResponse(openApi, response, responseCode));
+                operationResponses.push(getOperationResponse(openApi, response, responseCode, getModel));
             }
         }
     }
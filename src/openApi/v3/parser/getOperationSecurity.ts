@@ -0,0 +1,35 @@
+import type { OperationSecurity } from '../../../client/interfaces/OperationSecurity';
+import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiSecurityRequirement } from '../interfaces/OpenApiSecurityRequirement';
+import type { OpenApiSecurityScheme } from '../interfaces/OpenApiSecurityScheme';
+import { getRef } from './getRef';
+
+/**
+ * Get the security requirements of an operation, the schemes within a requirement must be
+ * satisfied together. Operations without requirements fall back to the global requirements,
+ * an empty list means the operation does not need authentication.
+ * @param openApi The OpenAPI specification
+ * @param security The security requirements of the operation
+ */
+export function getOperationSecurity(openApi: OpenApi, security?: OpenApiSecurityRequirement[]): OperationSecurity[][] | null {
+    const requirements = security || openApi.security;
+    if (!requirements) {
+        return null;
+    }
+    return requirements.map(requirement => {
+        return Object.keys(requirement).map(name => {
+            const definition = openApi.components && openApi.components.securitySchemes && openApi.components.securitySchemes[name];
+            if (!definition) {
+                throw new Error(`Could not find security scheme "${name}"`);
+            }
+            const scheme = getRef<OpenApiSecurityScheme>(openApi, definition);
+            return {
+                name,
+                type: scheme.type,
+                scheme: scheme.type === 'http' && scheme.scheme ? scheme.scheme.toLowerCase() : null,
+                in: scheme.type === 'apiKey' && scheme.in ? scheme.in : null,
+                parameter: scheme.type === 'apiKey' && scheme.name ? scheme.name : null,
+            };
+        });
+    });
+}
@@ -1,19 +1,26 @@
 import type { Service } from '../../../client/interfaces/Service';
 import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiPath } from '../interfaces/OpenApiPath';
 import { Method } from './constants';
+import type { GetModel } from './getModelProperties';
 import { getOperation } from './getOperation';
 import { getOperationParameters } from './getOperationParameters';
+import { getRef } from './getRef';
 
 /**
  * Get the OpenAPI services
+ * @param openApi The OpenAPI spec
+ * @param getModel Function to parse the schemas of the parameters and responses
  */
-export function getServices(openApi: OpenApi): Service[] {
+export function getServices(openApi: OpenApi, getModel: GetModel): Service[] {
     const services = new Map<string, Service>();
-    for (const url in openApi.paths) {
-        if (openApi.paths.hasOwnProperty(url)) {
-            // Grab path and parse any global path parameters
-            const path = openApi.paths[url];
-            const pathParams = getOperationParameters(openApi, path.parameters || []);
+    const paths = openApi.paths || {};
+    for (const url in paths) {
+        if (paths.hasOwnProperty(url)) {
+            // Grab path and parse any global path parameters, the path
+            // can also be a reference to one of the component path items.
+            const path = getRef<OpenApiPath>(openApi, paths[url]);
+            const pathParams = getOperationParameters(openApi, path.parameters || [], getModel);
 
             // Parse all the methods for this path
             for (const method in path) {
@@ -28,7 +35,7 @@ export function getServices(openApi: OpenApi): Service[] {
                         case Method.PATCH:
                             // Each method contains an OpenAPI operation, we parse the operation
                             const op = path[method]!;
-                            const operation = getOperation(openApi, url, method, op, pathParams);
+                            const operation = getOperation(openApi, url, method, op, pathParams, getModel);
 
                             // If we have already declared a service, then we should fetch that and
                             // append the new method to it. Otherwise we should create a new service object.
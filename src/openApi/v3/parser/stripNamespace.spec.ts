@@ -11,6 +11,9 @@ describe('stripNamespace', () => {
         expect(stripNamespace('#/components/securitySchemes/Item')).toEqual('Item');
         expect(stripNamespace('#/components/links/Item')).toEqual('Item');
         expect(stripNamespace('#/components/callbacks/Item')).toEqual('Item');
+        expect(stripNamespace('#/components/pathItems/Item')).toEqual('Item');
+        expect(stripNamespace('#/components/schemas/Model/$defs/Item')).toEqual('Item');
+        expect(stripNamespace('#/$defs/Item')).toEqual('Item');
         expect(stripNamespace('Template[Model]')).toEqual('Template[Model]');
         expect(stripNamespace('namespace.Template[Model]')).toEqual('Template[Model]');
         expect(stripNamespace('namespace.Template[namespace.Model]')).toEqual('Template[Model]');
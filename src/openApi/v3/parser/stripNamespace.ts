@@ -6,6 +6,7 @@ export function stripNamespace(value: string): string {
     return (
         value
             .trim()
+            .replace(/^#\/(.*\/)?\$defs\//, '')
             .replace(/^#\/components\/schemas\//, '')
             .replace(/^#\/components\/responses\//, '')
             .replace(/^#\/components\/parameters\//, '')
@@ -15,6 +16,7 @@ export function stripNamespace(value: string): string {
             .replace(/^#\/components\/securitySchemes\//, '')
             .replace(/^#\/components\/links\//, '')
             .replace(/^#\/components\/callbacks\//, '')
+            .replace(/^#\/components\/pathItems\//, '')
 
             // First we remove the namespace from template notation:
             // Example: namespace.Template[namespace.Model] -> namespace.Template[Model]
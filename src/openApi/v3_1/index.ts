@@ -0,0 +1,24 @@
+import type { Client } from '../../client/interfaces/Client';
+import { getServer } from '../v3/parser/getServer';
+import { getServices } from '../v3/parser/getServices';
+import { getServiceVersion } from '../v3/parser/getServiceVersion';
+import type { OpenApi } from './interfaces/OpenApi';
+import { getModel } from './parser/getModel';
+import { getModels } from './parser/getModels';
+import { getModelV3, getOpenApiV3 } from './parser/getOpenApiV3';
+import { getWebhooks } from './parser/getWebhooks';
+
+/**
+ * Parse the OpenAPI specification to a Client model that contains
+ * all the models, services and schema's we should output.
+ * @param openApi The OpenAPI spec  that we have loaded from disk.
+ */
+export function parse(openApi: OpenApi): Client {
+    const version = getServiceVersion(openApi.info.version);
+    const server = getServer(getOpenApiV3(openApi));
+    const models = getModels(openApi);
+    const services = getServices(getOpenApiV3(openApi), getModelV3(getModel));
+    const webhooks = getWebhooks(openApi);
+
+    return { version, server, models, services, webhooks };
+}
@@ -0,0 +1,7 @@
+/**
+ * Supported extension for enums
+ */
+export interface WithEnumExtension {
+    'x-enum-varnames'?: string[];
+    'x-enum-descriptions'?: string[];
+}
@@ -0,0 +1,25 @@
+import type { Dictionary } from '../../../utils/types';
+import type { OpenApiComponents } from './OpenApiComponents';
+import type { OpenApiExternalDocs } from './OpenApiExternalDocs';
+import type { OpenApiInfo } from './OpenApiInfo';
+import type { OpenApiPath } from './OpenApiPath';
+import type { OpenApiPaths } from './OpenApiPaths';
+import type { OpenApiSecurityRequirement } from './OpenApiSecurityRequirement';
+import type { OpenApiServer } from './OpenApiServer';
+import type { OpenApiTag } from './OpenApiTag';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md
+ */
+export interface OpenApi {
+    openapi: string;
+    info: OpenApiInfo;
+    jsonSchemaDialect?: string;
+    servers?: OpenApiServer[];
+    paths?: OpenApiPaths;
+    webhooks?: Dictionary<OpenApiPath>;
+    components?: OpenApiComponents;
+    security?: OpenApiSecurityRequirement[];
+    tags?: OpenApiTag[];
+    externalDocs?: OpenApiExternalDocs;
+}
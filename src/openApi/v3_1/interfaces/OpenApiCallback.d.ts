@@ -0,0 +1,9 @@
+import type { OpenApiPath } from './OpenApiPath';
+import type { OpenApiReference } from './OpenApiReference';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#callbackObject
+ */
+export interface OpenApiCallback extends OpenApiReference {
+    [key: string]: OpenApiPath;
+}
@@ -0,0 +1,8 @@
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#contactObject
+ */
+export interface OpenApiContact {
+    name?: string;
+    url?: string;
+    email?: string;
+}
@@ -0,0 +1,9 @@
+import type { Dictionary } from '../../../utils/types';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#discriminatorObject
+ */
+export interface OpenApiDiscriminator {
+    propertyName: string;
+    mapping?: Dictionary<string>;
+}
@@ -0,0 +1,11 @@
+import type { OpenApiReference } from './OpenApiReference';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#exampleObject
+ */
+export interface OpenApiExample extends OpenApiReference {
+    summary?: string;
+    description?: string;
+    value?: any;
+    externalValue?: string;
+}
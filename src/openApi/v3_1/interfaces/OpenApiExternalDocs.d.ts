@@ -0,0 +1,7 @@
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#externalDocumentationObject
+ */
+export interface OpenApiExternalDocs {
+    description?: string;
+    url: string;
+}
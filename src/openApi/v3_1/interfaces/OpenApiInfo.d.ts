@@ -0,0 +1,15 @@
+import type { OpenApiContact } from './OpenApiContact';
+import type { OpenApiLicense } from './OpenApiLicense';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#infoObject
+ */
+export interface OpenApiInfo {
+    title: string;
+    summary?: string;
+    description?: string;
+    termsOfService?: string;
+    contact?: OpenApiContact;
+    license?: OpenApiLicense;
+    version: string;
+}
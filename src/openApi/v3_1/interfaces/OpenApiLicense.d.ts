@@ -0,0 +1,8 @@
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#licenseObject
+ */
+export interface OpenApiLicense {
+    name: string;
+    identifier?: string;
+    url?: string;
+}
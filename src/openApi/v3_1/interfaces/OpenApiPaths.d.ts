@@ -0,0 +1,8 @@
+import type { OpenApiPath } from './OpenApiPath';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#pathsObject
+ */
+export interface OpenApiPaths {
+    [path: string]: OpenApiPath;
+}
@@ -0,0 +1,11 @@
+import type { OpenApiReference } from './OpenApiReference';
+import type { OpenApiResponse } from './OpenApiResponse';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#responsesObject
+ */
+export interface OpenApiResponses extends OpenApiReference {
+    default: OpenApiResponse;
+
+    [httpcode: string]: OpenApiResponse;
+}
@@ -0,0 +1,65 @@
+import type { Dictionary } from '../../../utils/types';
+import type { WithEnumExtension } from './Extensions/WithEnumExtension';
+import type { OpenApiDiscriminator } from './OpenApiDiscriminator';
+import type { OpenApiExternalDocs } from './OpenApiExternalDocs';
+import type { OpenApiReference } from './OpenApiReference';
+import type { OpenApiXml } from './OpenApiXml';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#schemaObject
+ * https://json-schema.org/draft/2020-12/json-schema-validation.html
+ */
+export interface OpenApiSchema extends OpenApiReference, WithEnumExtension {
+    $id?: string;
+    $schema?: string;
+    $comment?: string;
+    $defs?: Dictionary<OpenApiSchema>;
+    title?: string;
+    multipleOf?: number;
+    maximum?: number;
+    exclusiveMaximum?: number;
+    minimum?: number;
+    exclusiveMinimum?: number;
+    maxLength?: number;
+    minLength?: number;
+    pattern?: string;
+    maxItems?: number;
+    minItems?: number;
+    uniqueItems?: boolean;
+    maxContains?: number;
+    minContains?: number;
+    maxProperties?: number;
+    minProperties?: number;
+    required?: string[];
+    dependentRequired?: Dictionary<string[]>;
+    enum?: (string | number | boolean | null)[];
+    const?: string | number | boolean | null;
+    type?: string | string[];
+    allOf?: OpenApiSchema[];
+    oneOf?: OpenApiSchema[];
+    anyOf?: OpenApiSchema[];
+    not?: OpenApiSchema;
+    if?: OpenApiSchema;
+    then?: OpenApiSchema;
+    else?: OpenApiSchema;
+    prefixItems?: OpenApiSchema[];
+    items?: boolean | OpenApiSchema;
+    contains?: OpenApiSchema;
+    properties?: Dictionary<OpenApiSchema>;
+    patternProperties?: Dictionary<OpenApiSchema>;
+    additionalProperties?: boolean | OpenApiSchema;
+    propertyNames?: OpenApiSchema;
+    description?: string;
+    format?: 'int32' | 'int64' | 'float' | 'double' | 'string' | 'boolean' | 'byte' | 'binary' | 'date' | 'date-time' | 'password';
+    contentMediaType?: string;
+    contentEncoding?: string;
+    default?: any;
+    discriminator?: OpenApiDiscriminator;
+    readOnly?: boolean;
+    writeOnly?: boolean;
+    xml?: OpenApiXml;
+    externalDocs?: OpenApiExternalDocs;
+    examples?: any[];
+    example?: any;
+    deprecated?: boolean;
+}
@@ -0,0 +1,6 @@
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#securityRequirementObject
+ */
+export interface OpenApiSecurityRequirement {
+    [name: string]: string[];
+}
@@ -0,0 +1,10 @@
+import type { OpenApiExternalDocs } from './OpenApiExternalDocs';
+
+/**
+ * https://github.com/OAI/OpenAPI-Specification/blob/master/versions/3.1.0.md#tagObject
+ */
+export interface OpenApiTag {
+    name: string;
+    description?: string;
+    externalDocs?: OpenApiExternalDocs;
+}
@@ -0,0 +1,12 @@
+import { getConstValue } from './getConstValue';
+
+describe('getConstValue', () => {
+    it('should produce correct result', () => {
+        expect(getConstValue('cat')).toEqual(`'cat'`);
+        expect(getConstValue(`it's`)).toEqual(`'it\\'s'`);
+        expect(getConstValue(42)).toEqual('42');
+        expect(getConstValue(1.5)).toEqual('1.5');
+        expect(getConstValue(true)).toEqual('true');
+        expect(getConstValue(null)).toEqual('null');
+    });
+});
@@ -0,0 +1,11 @@
+/**
+ * Convert the value of a "const" keyword to a TypeScript literal type,
+ * this converts: "cat" to "'cat'", 42 to "42" and null to "null".
+ * @param value The constant value from the schema
+ */
+export function getConstValue(value: string | number | boolean | null): string {
+    if (typeof value === 'string') {
+        return `'${value.replace(/'/g, "\\'")}'`;
+    }
+    return String(value);
+}
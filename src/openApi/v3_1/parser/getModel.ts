@@ -0,0 +1,253 @@
+import type { Model } from '../../../client/interfaces/Model';
+import { PrimaryType } from '../../v3/parser/constants';
+import { extendEnum } from '../../v3/parser/extendEnum';
+import { getComment } from '../../v3/parser/getComment';
+import { getEnum } from '../../v3/parser/getEnum';
+import { getEnumFromDescription } from '../../v3/parser/getEnumFromDescription';
+import { getModelComposition } from '../../v3/parser/getModelComposition';
+import { getModelDefault } from '../../v3/parser/getModelDefault';
+import { getModelProperties } from '../../v3/parser/getModelProperties';
+import { getType } from '../../v3/parser/getType';
+import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
+import { getConstValue } from './getConstValue';
+import { getModelV3, getOpenApiV3, getSchemaV3 } from './getOpenApiV3';
+import { isNullable } from './isNullable';
+
+export function getModel(openApi: OpenApi, definition: OpenApiSchema, isDefinition: boolean = false, name: string = ''): Model {
+    const model: Model = {
+        name: name,
+        export: 'interface',
+        type: PrimaryType.OBJECT,
+        base: PrimaryType.OBJECT,
+        template: null,
+        link: null,
+        description: getComment(definition.description),
+        isDefinition: isDefinition,
+        isReadOnly: definition.readOnly === true,
+        isWriteOnly: definition.writeOnly === true,
+        isNullable: isNullable(definition),
+        isRequired: false,
+        imports: [],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [],
+    };
+
+    if (definition.$ref) {
+        const definitionRef = getType(definition.$ref);
+        model.export = 'reference';
+        model.type = definitionRef.type;
+        model.base = definitionRef.base;
+        model.template = definitionRef.template;
+        model.imports.push(...definitionRef.imports);
+        model.default = getModelDefault(getSchemaV3(definition), model);
+        return model;
+    }
+
+    if (definition.const !== undefined) {
+        const value = getConstValue(definition.const);
+        model.export = 'const';
+        model.type = value;
+        model.base = value;
+        return model;
+    }
+
+    // JSON Schema allows a list of types, like: ["string", "number", "null"]. The "null" type
+    // only makes the model nullable, if one type remains we parse it as a normal schema.
+    if (Array.isArray(definition.type)) {
+        const types = definition.type.filter(type => type !== 'null');
+        if (types.length === 1 || !types.length) {
+            const definitionType = getModel(openApi, { ...definition, type: types[0] || 'null' }, isDefinition, name);
+            definitionType.isNullable = definitionType.isNullable || model.isNullable;
+            return definitionType;
+        }
+        model.export = 'union';
+        types.forEach(type => {
+            const definitionType = getModel(openApi, { ...definition, type });
+            model.properties.push(definitionType);
+            model.imports.push(...definitionType.imports);
+        });
+        model.type = model.properties.map(property => property.type).join(' | ');
+        model.base = model.type;
+        model.default = getModelDefault(getSchemaV3(definition), model);
+        return model;
+    }
+
+    if (definition.enum) {
+        const enumerators = getEnum(definition.enum.filter((value): value is string | number => typeof value === 'string' || typeof value === 'number'));
+        const extendedEnumerators = extendEnum(enumerators, definition);
+        if (extendedEnumerators.length) {
+            model.export = 'enum';
+            model.type = PrimaryType.STRING;
+            model.base = PrimaryType.STRING;
+            model.enum.push(...extendedEnumerators);
+            model.default = getModelDefault(getSchemaV3(definition), model);
+            return model;
+        }
+    }
+
+    if ((definition.type === 'int' || definition.type === 'integer') && definition.description) {
+        const enumerators = getEnumFromDescription(definition.description);
+        if (enumerators.length) {
+            model.export = 'enum';
+            model.type = PrimaryType.NUMBER;
+            model.base = PrimaryType.NUMBER;
+            model.enum.push(...enumerators);
+            model.default = getModelDefault(getSchemaV3(definition), model);
+            return model;
+        }
+    }
+
+    if (definition.prefixItems) {
+        model.export = 'tuple';
+        definition.prefixItems.forEach(item => {
+            const tupleItem = getModel(openApi, item);
+            model.properties.push(tupleItem);
+            model.imports.push(...tupleItem.imports);
+        });
+        if (definition.items && typeof definition.items === 'object') {
+            const tupleRest = getModel(openApi, definition.items);
+            model.link = tupleRest;
+            model.imports.push(...tupleRest.imports);
+        }
+        model.type = `[${model.properties.map(property => property.type).join(', ')}]`;
+        model.base = model.type;
+        model.default = getModelDefault(getSchemaV3(definition), model);
+        return model;
+    }
+
+    if (definition.type === 'array' && definition.items && typeof definition.items === 'object') {
+        if (definition.items.$ref) {
+            const arrayItems = getType(definition.items.$ref);
+            model.export = 'array';
+            model.type = arrayItems.type;
+            model.base = arrayItems.base;
+            model.template = arrayItems.template;
+            model.imports.push(...arrayItems.imports);
+            model.default = getModelDefault(getSchemaV3(definition), model);
+            return model;
+        } else {
+            const arrayItems = getModel(openApi, definition.items);
+            model.export = 'array';
+            model.type = arrayItems.type;
+            model.base = arrayItems.base;
+            model.template = arrayItems.template;
+            model.link = arrayItems;
+            model.imports.push(...arrayItems.imports);
+            model.default = getModelDefault(getSchemaV3(definition), model);
+            return model;
+        }
+    }
+
+    if (definition.type === 'object' && definition.additionalProperties && typeof definition.additionalProperties === 'object') {
+        if (definition.additionalProperties.$ref) {
+            const additionalProperties = getType(definition.additionalProperties.$ref);
+            model.export = 'dictionary';
+            model.type = additionalProperties.type;
+            model.base = additionalProperties.base;
+            model.template = additionalProperties.template;
+            model.imports.push(...additionalProperties.imports);
+            model.default = getModelDefault(getSchemaV3(definition), model);
+            return model;
+        } else {
+            const additionalProperties = getModel(openApi, definition.additionalProperties);
+            model.export = 'dictionary';
+            model.type = additionalProperties.type;
+            model.base = additionalProperties.base;
+            model.template = additionalProperties.template;
+            model.link = additionalProperties;
+            model.imports.push(...additionalProperties.imports);
+            model.default = getModelDefault(getSchemaV3(definition), model);
+            return model;
+        }
+    }
+
+    const compositionDefinitions = definition.oneOf && definition.oneOf.length ? definition.oneOf : definition.anyOf;
+    if (compositionDefinitions && compositionDefinitions.length) {
+        const composition = getModelComposition(getOpenApiV3(openApi), getSchemaV3(definition), compositionDefinitions.map(getSchemaV3), getModelV3(getModel));
+        model.discriminator = composition.discriminator;
+        model.isNullable = model.isNullable || composition.isNullable;
+
+        if (!definition.properties && !definition.allOf) {
+            model.export = composition.export;
+            model.type = composition.type;
+            model.base = composition.base;
+            model.imports.push(...composition.imports);
+            model.properties.push(...composition.properties);
+            return model;
+        }
+
+        // Properties (or parents) next to the composition are shared by all members,
+        // so we generate an intersection: "{ name: string } & (Cat | Dog)".
+        model.export = 'intersection';
+        if (definition.allOf) {
+            model.properties.push(...definition.allOf.map(parent => getModel(openApi, parent)));
+        }
+        if (definition.properties) {
+            model.properties.push(getModel(openApi, { type: 'object', properties: definition.properties, required: definition.required }));
+        }
+        model.properties.push(composition);
+        model.properties.forEach(property => model.imports.push(...property.imports));
+        model.type = model.properties.map(property => property.type).join(' & ');
+        model.base = model.type;
+        return model;
+    }
+
+    if (definition.type === 'object' || definition.allOf) {
+        model.export = 'interface';
+        model.type = PrimaryType.OBJECT;
+        model.base = PrimaryType.OBJECT;
+        model.default = getModelDefault(getSchemaV3(definition), model);
+
+        if (definition.allOf && definition.allOf.length) {
+            definition.allOf.forEach(parent => {
+                if (parent.$ref) {
+                    const parentRef = getType(parent.$ref);
+                    model.extends.push(parentRef.base);
+                    model.imports.push(parentRef.base);
+                }
+                if (parent.type === 'object' && parent.properties) {
+                    const properties = getModelProperties(getOpenApiV3(openApi), getSchemaV3(parent), getModelV3(getModel));
+                    properties.forEach(property => {
+                        model.properties.push(property);
+                        model.imports.push(...property.imports);
+                        if (property.export === 'enum') {
+                            model.enums.push(property);
+                        }
+                    });
+                }
+            });
+        }
+
+        if (definition.properties) {
+            const properties = getModelProperties(getOpenApiV3(openApi), getSchemaV3(definition), getModelV3(getModel));
+            properties.forEach(property => {
+                model.properties.push(property);
+                model.imports.push(...property.imports);
+                if (property.export === 'enum') {
+                    model.enums.push(property);
+                }
+            });
+        }
+
+        return model;
+    }
+
+    // If the schema has a type than it can be a basic or generic type, binary
+    // strings (like file uploads and downloads) are handled as files.
+    if (definition.type) {
+        const definitionType = getType(definition.format === 'binary' ? 'file' : definition.type);
+        model.export = 'generic';
+        model.isInteger = definition.type === 'integer';
+        model.type = definitionType.type;
+        model.base = definitionType.base;
+        model.template = definitionType.template;
+        model.imports.push(...definitionType.imports);
+        model.default = getModelDefault(getSchemaV3(definition), model);
+        return model;
+    }
+
+    return model;
+}
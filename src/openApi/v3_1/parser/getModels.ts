@@ -0,0 +1,35 @@
+import type { Model } from '../../../client/interfaces/Model';
+import type { Dictionary } from '../../../utils/types';
+import { getType } from '../../v3/parser/getType';
+import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
+import { getModel } from './getModel';
+
+/**
+ * Get the models from the given schemas, this includes the schemas that are defined
+ * in "$defs", since they can be referenced like any other schema in the spec.
+ * @param openApi The OpenAPI spec
+ * @param schemas The schemas to parse
+ */
+function getModelsFromSchemas(openApi: OpenApi, schemas: Dictionary<OpenApiSchema>): Model[] {
+    const models: Model[] = [];
+    for (const definitionName in schemas) {
+        if (schemas.hasOwnProperty(definitionName)) {
+            const definition = schemas[definitionName];
+            const definitionType = getType(definitionName);
+            const model = getModel(openApi, definition, true, definitionType.base);
+            models.push(model);
+            if (definition.$defs) {
+                models.push(...getModelsFromSchemas(openApi, definition.$defs));
+            }
+        }
+    }
+    return models;
+}
+
+export function getModels(openApi: OpenApi): Model[] {
+    if (openApi.components && openApi.components.schemas) {
+        return getModelsFromSchemas(openApi, openApi.components.schemas);
+    }
+    return [];
+}
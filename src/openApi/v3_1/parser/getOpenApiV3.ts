@@ -0,0 +1,32 @@
+import type { Model } from '../../../client/interfaces/Model';
+import type { OpenApi as OpenApiV3 } from '../../v3/interfaces/OpenApi';
+import type { OpenApiSchema as OpenApiSchemaV3 } from '../../v3/interfaces/OpenApiSchema';
+import type { GetModel } from '../../v3/parser/getModelProperties';
+import type { OpenApi } from '../interfaces/OpenApi';
+import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
+
+/**
+ * Type the OpenAPI 3.1 spec for the v3 parser. The paths, operations, properties and compositions
+ * of both versions are parsed by the v3 parser, which only reads the keywords that they have in
+ * common. It hands every (nested) schema back to the 3.1 getModel, which parses JSON Schema.
+ * @param openApi The OpenAPI 3.1 spec
+ */
+export function getOpenApiV3(openApi: OpenApi): OpenApiV3 {
+    return (openApi as unknown) as OpenApiV3;
+}
+
+/**
+ * Type the OpenAPI 3.1 schema for the v3 parser, see getOpenApiV3.
+ * @param definition The OpenAPI 3.1 schema
+ */
+export function getSchemaV3(definition: OpenApiSchema): OpenApiSchemaV3 {
+    return (definition as unknown) as OpenApiSchemaV3;
+}
+
+/**
+ * Type the 3.1 getModel for the v3 parser, see getOpenApiV3.
+ * @param getModel The function that parses OpenAPI 3.1 schemas
+ */
+export function getModelV3(getModel: (openApi: OpenApi, definition: OpenApiSchema, isDefinition?: boolean, name?: string) => Model): GetModel {
+    return (getModel as unknown) as GetModel;
+}
@@ -0,0 +1,51 @@
+import type { Service } from '../../../client/interfaces/Service';
+import type { OpenApiPath } from '../../v3/interfaces/OpenApiPath';
+import { Method } from '../../v3/parser/constants';
+import { getOperation } from '../../v3/parser/getOperation';
+import { getOperationParameters } from '../../v3/parser/getOperationParameters';
+import { getRef } from '../../v3/parser/getRef';
+import type { OpenApi } from '../interfaces/OpenApi';
+import { getModel } from './getModel';
+import { getModelV3, getOpenApiV3 } from './getOpenApiV3';
+
+/**
+ * Get the OpenAPI webhooks, these are the requests that the API can send to the
+ * client. We parse them like operations, so we can generate the handler types.
+ */
+export function getWebhooks(openApi: OpenApi): Service {
+    const webhooks: Service = {
+        name: 'Webhooks',
+        operations: [],
+        imports: [],
+    };
+    const openApiV3 = getOpenApiV3(openApi);
+    const paths = openApi.webhooks || {};
+    for (const name in paths) {
+        if (paths.hasOwnProperty(name)) {
+            const path = getRef<OpenApiPath>(openApiV3, paths[name] as OpenApiPath);
+            const pathParams = getOperationParameters(openApiV3, path.parameters || [], getModelV3(getModel));
+
+            for (const method in path) {
+                if (path.hasOwnProperty(method)) {
+                    switch (method) {
+                        case Method.GET:
+                        case Method.PUT:
+                        case Method.POST:
+                        case Method.DELETE:
+                        case Method.OPTIONS:
+                        case Method.HEAD:
+                        case Method.PATCH:
+                            // The name of the webhook is used as a fallback for the
+                            // operation id, so the handler is named after the webhook.
+                            const op = path[method]!;
+                            const operation = getOperation(openApiV3, name, method, { ...op, operationId: op.operationId || name }, pathParams, getModelV3(getModel));
+                            webhooks.operations.push(operation);
+                            webhooks.imports.push(...operation.imports);
+                            break;
+                    }
+                }
+            }
+        }
+    }
+    return webhooks;
+}
@@ -0,0 +1,13 @@
+import { isNullable } from './isNullable';
+
+describe('isNullable', () => {
+    it('should produce correct result', () => {
+        expect(isNullable({ type: 'string' })).toEqual(false);
+        expect(isNullable({ type: ['string'] })).toEqual(false);
+        expect(isNullable({ type: ['string', 'null'] })).toEqual(true);
+        expect(isNullable({ type: 'null' })).toEqual(true);
+        expect(isNullable({ enum: ['a', 'b'] })).toEqual(false);
+        expect(isNullable({ enum: ['a', 'b', null] })).toEqual(true);
+        expect(isNullable({ $ref: '#/components/schemas/Foo' })).toEqual(false);
+    });
+});
@@ -0,0 +1,13 @@
+import type { OpenApiSchema } from '../interfaces/OpenApiSchema';
+
+/**
+ * Check if the schema accepts null values. JSON Schema 2020-12 does not have the
+ * "nullable" keyword, instead "null" is added to the type array: ["string", "null"].
+ * @param definition The schema to check
+ */
+export function isNullable(definition: OpenApiSchema): boolean {
+    if (Array.isArray(definition.type)) {
+        return definition.type.includes('null');
+    }
+    return definition.type === 'null' || (Array.isArray(definition.enum) && definition.enum.includes(null));
+}
@@ -0,0 +1,109 @@
+import * as path from 'path';
+
+import { bundleOpenApiSpec } from './bundleOpenApiSpec';
+import { getOpenApiSpec } from './getOpenApiSpec';
+
+jest.mock('./getOpenApiSpec');
+
+const getOpenApiSpecMocked = getOpenApiSpec as jest.MockedFunction<typeof getOpenApiSpec>;
+
+const files: Record<string, any> = {
+    [path.resolve('/api/schemas/user.yaml')]: {
+        type: 'object',
+        properties: {
+            name: { type: 'string' },
+            address: { $ref: './common.yaml#/Address' },
+        },
+    },
+    [path.resolve('/api/schemas/common.yaml')]: {
+        Address: {
+            type: 'object',
+            properties: {
+                street: { type: 'string' },
+            },
+        },
+        Limit: {
+            name: 'limit',
+            in: 'query',
+            schema: { type: 'integer' },
+        },
+    },
+};
+
+describe('bundleOpenApiSpec', () => {
+    beforeEach(() => {
+        getOpenApiSpecMocked.mockImplementation(location => {
+            if (files.hasOwnProperty(location)) {
+                return Promise.resolve(files[location]);
+            }
+            return Promise.reject(new Error(`Could not read OpenApi spec: "${location}"`));
+        });
+    });
+
+    it('should add external schemas to the component schemas', async () => {
+        const spec = await bundleOpenApiSpec(
+            {
+                openapi: '3.0.0',
+                paths: {
+                    '/users': {
+                        get: {
+                            parameters: [{ $ref: './schemas/common.yaml#/Limit' }],
+                            responses: {
+                                200: {
+                                    description: 'Users',
+                                    content: {
+                                        'application/json': {
+                                            schema: { type: 'array', items: { $ref: './schemas/user.yaml' } },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                },
+                components: {
+                    schemas: {
+                        Owner: { $ref: './schemas/user.yaml' },
+                        Location: { $ref: './schemas/common.yaml#/Address' },
+                    },
+                },
+            },
+            '/api/openapi.yaml'
+        );
+
+        expect(spec.paths['/users'].get.parameters).toEqual([files[path.resolve('/api/schemas/common.yaml')].Limit]);
+        expect(spec.paths['/users'].get.responses[200].content['application/json'].schema.items).toEqual({ $ref: '#/components/schemas/Owner' });
+        expect(Object.keys(spec.components.schemas)).toEqual(['Owner', 'Location']);
+        expect(spec.components.schemas.Owner.properties.address).toEqual({ $ref: '#/components/schemas/Location' });
+        expect(spec.components.schemas.Location.properties.street).toEqual({ type: 'string' });
+    });
+
+    it('should add external schemas to the definitions', async () => {
+        const spec = await bundleOpenApiSpec(
+            {
+                swagger: '2.0',
+                definitions: {
+                    Team: {
+                        type: 'object',
+                        properties: {
+                            owner: { $ref: 'schemas/user.yaml' },
+                            members: { type: 'array', items: { $ref: 'schemas/user.yaml' } },
+                        },
+                    },
+                },
+            },
+            '/api/swagger.json'
+        );
+
+        expect(Object.keys(spec.definitions)).toEqual(['Team', 'User', 'Address']);
+        expect(spec.definitions.Team.properties.owner).toEqual({ $ref: '#/definitions/User' });
+        expect(spec.definitions.Team.properties.members.items).toEqual({ $ref: '#/definitions/User' });
+        expect(spec.definitions.User.properties.address).toEqual({ $ref: '#/definitions/Address' });
+    });
+
+    it('should throw on missing references', async () => {
+        await expect(bundleOpenApiSpec({ swagger: '2.0', definitions: { Foo: { $ref: 'schemas/common.yaml#/Foo' } } }, '/api/swagger.json')).rejects.toThrow(
+            `Could not find reference: "${path.resolve('/api/schemas/common.yaml')}#/Foo"`
+        );
+    });
+});
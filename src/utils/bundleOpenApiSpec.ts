@@ -0,0 +1,239 @@
+import * as path from 'path';
+
+import { getJsonPointerSegments } from './getJsonPointerSegments';
+import { getOpenApiSpec } from './getOpenApiSpec';
+import { getOpenApiVersion, OpenApiVersion } from './getOpenApiVersion';
+import { getRefLocation } from './getRefLocation';
+import { getRefName } from './getRefName';
+import { isUrl } from './isUrl';
+import type { Dictionary } from './types';
+
+/**
+ * The kind of value we are looking at while walking the spec, this determines
+ * what we do with an external reference: schemas are added to the definitions
+ * of the spec (so they become models), all other objects are inlined.
+ */
+type Kind = 'schema' | 'schemas' | 'other' | 'data';
+
+interface Target {
+    key: string;
+    location: string;
+    pointer: string;
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+function getChildKind(kind: Kind, key: string): Kind {
+    switch (kind) {
+        case 'schemas':
+            return 'schema';
+
+        case 'schema':
+            switch (key) {
+                case 'properties':
+                case 'patternProperties':
+                case 'definitions':
+                case '$defs':
+                    return 'schemas';
+                case 'items':
+                case 'prefixItems':
+                case 'additionalProperties':
+                case 'allOf':
+                case 'anyOf':
+                case 'oneOf':
+                case 'not':
+                    return 'schema';
+                case 'default':
+                case 'enum':
+                case 'const':
+                case 'example':
+                case 'examples':
+                    return 'data';
+            }
+            return 'other';
+
+        case 'other':
+            switch (key) {
+                case 'schema':
+                case 'items':
+                    return 'schema';
+                case 'schemas':
+                case 'definitions':
+                    return 'schemas';
+                case 'example':
+                case 'default':
+                    return 'data';
+            }
+            return 'other';
+    }
+    return 'data';
+}
+
+/**
+ * Resolve all external references in the spec, so the parsers only have to deal
+ * with local ("#/...") references. External schemas are added to the definitions
+ * (v2) or component schemas (v3) of the spec under a stable name, so they are
+ * generated like any other model. All other external objects, like parameters
+ * or responses, are inlined at the place they are referenced.
+ *
+ * The parsers cannot resolve external references, so this has to run on the spec
+ * returned by getOpenApiSpec before that spec is passed to the v2 or v3 parser:
+ * `parse(await bundleOpenApiSpec(await getOpenApiSpec(input), input))`.
+ * @param openApi The OpenAPI spec that we have loaded from disk
+ * @param input Location of the spec, used to resolve relative references
+ */
+export async function bundleOpenApiSpec(openApi: any, input: string): Promise<any> {
+    const root = clone(openApi);
+    const rootLocation = isUrl(input) ? input : path.resolve(process.cwd(), input);
+    const version = getOpenApiVersion(root);
+    const documents = new Map<string, Promise<any>>([[rootLocation, Promise.resolve(root)]]);
+    const definitions: Dictionary = (version === OpenApiVersion.V2 ? root.definitions : root.components && root.components.schemas) || {};
+    const prefix = version === OpenApiVersion.V2 ? '#/definitions/' : '#/components/schemas/';
+
+    // The external schemas we have added, stored by name and by reference. We also keep
+    // track of the source of every schema, so identical schemas (that are referenced
+    // from different locations) only end up in the generated client once.
+    const added: Dictionary = {};
+    const names = new Map<string, string>();
+    const sources = new Map<string, string>();
+    for (const name in definitions) {
+        if (definitions.hasOwnProperty(name)) {
+            sources.set(name, JSON.stringify(definitions[name]));
+        }
+    }
+
+    const load = (location: string): Promise<any> => {
+        let document = documents.get(location);
+        if (!document) {
+            document = getOpenApiSpec(location);
+            documents.set(location, document);
+        }
+        return document;
+    };
+
+    const getTarget = (location: string, ref: string): Target => {
+        const index = ref.indexOf('#');
+        const file = index === -1 ? ref : ref.substring(0, index);
+        const pointer = index === -1 ? '' : ref.substring(index + 1);
+        const targetLocation = file ? getRefLocation(location, file) : location;
+        return {
+            key: `${targetLocation}#${pointer}`,
+            location: targetLocation,
+            pointer,
+        };
+    };
+
+    const getContent = async (target: Target): Promise<any> => {
+        let result = await load(target.location);
+        getJsonPointerSegments(target.pointer).forEach(segment => {
+            if (result && typeof result === 'object' && result.hasOwnProperty(segment)) {
+                result = result[segment];
+            } else {
+                throw new Error(`Could not find reference: "${target.key}"`);
+            }
+        });
+        return clone(result);
+    };
+
+    const addDefinition = async (target: Target): Promise<string> => {
+        const existing = names.get(target.key);
+        if (existing) {
+            return existing;
+        }
+
+        const content = await getContent(target);
+        const source = JSON.stringify(content);
+        const baseName = getRefName(target.location, target.pointer);
+
+        let name = baseName;
+        let index = 1;
+        while (sources.has(name) && sources.get(name) !== source) {
+            name = `${baseName}${index++}`;
+        }
+        names.set(target.key, name);
+
+        if (!sources.has(name)) {
+            sources.set(name, source);
+            added[name] = {};
+            added[name] = await walk(content, target.location, 'schema', [target.key]);
+        }
+        return name;
+    };
+
+    const walk = async (value: any, location: string, kind: Kind, stack: string[]): Promise<any> => {
+        if (kind === 'data' || !value || typeof value !== 'object') {
+            return value;
+        }
+
+        if (Array.isArray(value)) {
+            const result: any[] = [];
+            for (const item of value) {
+                result.push(await walk(item, location, kind, stack));
+            }
+            return result;
+        }
+
+        if (typeof value.$ref === 'string' && kind !== 'schemas') {
+            const target = getTarget(location, value.$ref);
+
+            // References that point to the root document are already local,
+            // we only need to make sure they do not contain a file path.
+            if (target.location === rootLocation) {
+                return { ...value, $ref: `#${target.pointer}` };
+            }
+
+            if (kind === 'schema') {
+                const name = await addDefinition(target);
+                return { $ref: `${prefix}${name}` };
+            }
+
+            if (stack.includes(target.key)) {
+                throw new Error(`Circular reference: "${target.key}"`);
+            }
+            const content = await getContent(target);
+            return await walk(content, target.location, kind, [...stack, target.key]);
+        }
+
+        const result: Dictionary = {};
+        for (const key in value) {
+            if (value.hasOwnProperty(key)) {
+                result[key] = key.startsWith('x-') ? value[key] : await walk(value[key], location, getChildKind(kind, key), stack);
+            }
+        }
+        return result;
+    };
+
+    // Definitions that only point to an external schema (User: { $ref: "./user.yaml" })
+    // take over the contents of that schema, instead of becoming an alias for it. We claim
+    // all of these names first, so other references to the same schemas resolve to them.
+    const aliases = new Map<string, Target>();
+    for (const name in definitions) {
+        if (definitions.hasOwnProperty(name)) {
+            const definition = definitions[name];
+            if (definition && typeof definition.$ref === 'string' && !definition.$ref.startsWith('#')) {
+                const target = getTarget(rootLocation, definition.$ref);
+                if (target.location !== rootLocation && !names.has(target.key)) {
+                    names.set(target.key, name);
+                    sources.set(name, JSON.stringify(await getContent(target)));
+                    aliases.set(name, target);
+                }
+            }
+        }
+    }
+    for (const [name, target] of aliases) {
+        definitions[name] = await walk(await getContent(target), target.location, 'schema', [target.key]);
+    }
+
+    const result = await walk(root, rootLocation, 'other', []);
+    if (Object.keys(added).length) {
+        if (version === OpenApiVersion.V2) {
+            result.definitions = { ...result.definitions, ...added };
+        } else {
+            result.components = result.components || {};
+            result.components.schemas = { ...result.components.schemas, ...added };
+        }
+    }
+    return result;
+}
@@ -0,0 +1,13 @@
+import { getJsonPointerSegments } from './getJsonPointerSegments';
+
+describe('getJsonPointerSegments', () => {
+    it('should produce correct result', () => {
+        expect(getJsonPointerSegments('')).toEqual([]);
+        expect(getJsonPointerSegments('/')).toEqual([]);
+        expect(getJsonPointerSegments('/User')).toEqual(['User']);
+        expect(getJsonPointerSegments('/components/schemas/User')).toEqual(['components', 'schemas', 'User']);
+        expect(getJsonPointerSegments('/paths/~1pets~1{id}/get')).toEqual(['paths', '/pets/{id}', 'get']);
+        expect(getJsonPointerSegments('/definitions/Foo~0Bar')).toEqual(['definitions', 'Foo~Bar']);
+        expect(getJsonPointerSegments('/definitions/Foo%20Bar')).toEqual(['definitions', 'Foo Bar']);
+    });
+});
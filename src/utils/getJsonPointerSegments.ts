@@ -0,0 +1,12 @@
+/**
+ * Split a JSON pointer into its unescaped segments, this converts:
+ * "/components/schemas/Foo~1Bar" to ["components", "schemas", "Foo/Bar"]
+ * @see https://tools.ietf.org/html/rfc6901
+ * @param pointer The fragment part of a reference (without the "#")
+ */
+export function getJsonPointerSegments(pointer: string): string[] {
+    return pointer
+        .split('/')
+        .filter(segment => segment)
+        .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+}
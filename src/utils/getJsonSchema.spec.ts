@@ -0,0 +1,127 @@
+import type { Model } from '../client/interfaces/Model';
+import { getJsonSchema } from './getJsonSchema';
+
+const getModel = (model: Partial<Model>): Model => ({
+    export: 'generic',
+    name: '',
+    type: 'string',
+    base: 'string',
+    template: null,
+    link: null,
+    description: null,
+    isDefinition: false,
+    isReadOnly: false,
+    isWriteOnly: false,
+    isRequired: false,
+    isNullable: false,
+    imports: [],
+    extends: [],
+    enum: [],
+    enums: [],
+    properties: [],
+    ...model,
+});
+
+const getRef = (name: string) => `#/$defs/${name}`;
+
+describe('getJsonSchema', () => {
+    it('should convert the primary types and their constraints', () => {
+        expect(getJsonSchema(getModel({ maxLength: 64, pattern: "^\\\\d[^\\']*$" }), getRef)).toEqual({
+            type: 'string',
+            maxLength: 64,
+            pattern: "^\\d[^']*$",
+        });
+        expect(getJsonSchema(getModel({ base: 'number', isInteger: true, format: 'int32', minimum: 0, maximum: 10, exclusiveMaximum: true }), getRef)).toEqual({
+            type: 'integer',
+            format: 'int32',
+            minimum: 0,
+            exclusiveMaximum: 10,
+        });
+        expect(getJsonSchema(getModel({ base: 'number', isInteger: true }), getRef)).toEqual({
+            type: 'integer',
+        });
+        expect(getJsonSchema(getModel({ base: 'number', format: 'double' }), getRef)).toEqual({
+            type: 'number',
+            format: 'double',
+        });
+        expect(getJsonSchema(getModel({ base: 'File' }), getRef)).toEqual({
+            type: 'string',
+            format: 'binary',
+        });
+        expect(getJsonSchema(getModel({ base: 'any' }), getRef)).toEqual({});
+    });
+
+    it('should convert nullable schemas', () => {
+        expect(getJsonSchema(getModel({ isNullable: true }), getRef)).toEqual({
+            type: ['string', 'null'],
+        });
+        expect(getJsonSchema(getModel({ export: 'reference', base: 'MyModel', isNullable: true, isReadOnly: true }), getRef)).toEqual({
+            anyOf: [{ $ref: '#/$defs/MyModel' }, { type: 'null' }],
+            readOnly: true,
+        });
+        expect(
+            getJsonSchema(
+                getModel({
+                    export: 'enum',
+                    isNullable: true,
+                    enum: [
+                        { name: 'CAT', value: `'cat'`, type: 'string', description: null },
+                        { name: 'DOG', value: `'dog'`, type: 'string', description: null },
+                    ],
+                }),
+                getRef
+            )
+        ).toEqual({
+            type: ['string', 'null'],
+            enum: ['cat', 'dog', null],
+        });
+    });
+
+    it('should convert interfaces', () => {
+        const model = getModel({
+            export: 'interface',
+            base: 'any',
+            description: 'Line one\n * line two',
+            extends: ['MyBase'],
+            properties: [
+                getModel({ name: 'id', base: 'number', isRequired: true, isReadOnly: true }),
+                getModel({ name: 'tags', export: 'array', link: getModel({ export: 'reference', base: 'MyTag' }), uniqueItems: true }),
+                getModel({ name: 'kind', export: 'const', base: `'cat'`, isRequired: true, default: `'cat'` }),
+            ],
+        });
+        expect(getJsonSchema(model, getRef)).toEqual({
+            allOf: [{ $ref: '#/$defs/MyBase' }],
+            type: 'object',
+            properties: {
+                id: { type: 'number', readOnly: true },
+                tags: { type: 'array', items: { $ref: '#/$defs/MyTag' }, uniqueItems: true },
+                kind: { const: 'cat', default: 'cat' },
+            },
+            required: ['id', 'kind'],
+            description: 'Line one\nline two',
+        });
+    });
+
+    it('should convert compositions, tuples and dictionaries', () => {
+        const members = [getModel({ export: 'reference', base: 'Cat' }), getModel({ export: 'reference', base: 'Dog' })];
+        expect(getJsonSchema(getModel({ export: 'union', properties: members }), getRef)).toEqual({
+            anyOf: [{ $ref: '#/$defs/Cat' }, { $ref: '#/$defs/Dog' }],
+        });
+        expect(getJsonSchema(getModel({ export: 'union', properties: members, discriminator: { propertyName: 'petType', mapping: [] } }), getRef)).toEqual({
+            oneOf: [{ $ref: '#/$defs/Cat' }, { $ref: '#/$defs/Dog' }],
+        });
+        expect(getJsonSchema(getModel({ export: 'intersection', properties: members }), getRef)).toEqual({
+            allOf: [{ $ref: '#/$defs/Cat' }, { $ref: '#/$defs/Dog' }],
+        });
+        expect(getJsonSchema(getModel({ export: 'tuple', properties: [getModel({}), getModel({ base: 'number' })], link: getModel({ base: 'boolean' }) }), getRef)).toEqual({
+            type: 'array',
+            prefixItems: [{ type: 'string' }, { type: 'number' }],
+            items: { type: 'boolean' },
+        });
+        expect(getJsonSchema(getModel({ export: 'dictionary', base: 'MyModel', minProperties: 1 }), getRef)).toEqual({
+            type: 'object',
+            additionalProperties: { $ref: '#/$defs/MyModel' },
+            minProperties: 1,
+        });
+    });
+});
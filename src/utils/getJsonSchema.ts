@@ -0,0 +1,218 @@
+import type { Model } from '../client/interfaces/Model';
+import { getJsonValue } from './getJsonValue';
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * Get the name of the property in the spec, the discriminator properties of a union
+ * are written as a string literal when their name is not a valid identifier.
+ * @param name The name of the property
+ */
+function getPropertyName(name: string): string {
+    if (name.length >= 2 && name.startsWith("'") && name.endsWith("'")) {
+        return name.slice(1, -1).replace(/\\(['\\])/g, '$1');
+    }
+    return name;
+}
+
+/**
+ * Get the JSON Schema of a base type, the base is either one of the primary
+ * types or the name of another model, which is resolved with a reference.
+ * @param base The base type of the model
+ * @param getRef Returns the reference to the model with the given name
+ */
+function getBaseSchema(base: string, getRef: (name: string) => string): JsonSchema {
+    switch (base) {
+        case 'string':
+        case 'number':
+        case 'boolean':
+        case 'null':
+            return { type: base };
+        case 'File':
+            return { type: 'string', format: 'binary' };
+        case 'any[]':
+            return { type: 'array' };
+        case 'any':
+        case 'unknown':
+        case 'void':
+            return {};
+        default:
+            return { $ref: getRef(base) };
+    }
+}
+
+/**
+ * Get the JSON Schema of the structure of the model, without the annotations.
+ * @param model The model to convert
+ * @param getRef Returns the reference to the model with the given name
+ */
+function getStructure(model: Model, getRef: (name: string) => string): JsonSchema {
+    switch (model.export) {
+        case 'reference':
+            return { $ref: getRef(model.base) };
+
+        case 'enum': {
+            const types = model.enum.map(item => item.type).filter((type, index, arr) => arr.indexOf(type) === index);
+            return {
+                ...(types.length === 1 && { type: types[0] }),
+                enum: model.enum.map(item => getJsonValue(item.value)),
+            };
+        }
+
+        case 'const':
+            return { const: getJsonValue(model.base) };
+
+        case 'array':
+            return {
+                type: 'array',
+                items: model.link ? getJsonSchema(model.link, getRef) : getBaseSchema(model.base, getRef),
+            };
+
+        case 'tuple':
+            return {
+                type: 'array',
+                prefixItems: model.properties.map(property => getJsonSchema(property, getRef)),
+                ...(model.link && { items: getJsonSchema(model.link, getRef) }),
+            };
+
+        case 'dictionary':
+            return {
+                type: 'object',
+                additionalProperties: model.link ? getJsonSchema(model.link, getRef) : getBaseSchema(model.base, getRef),
+            };
+
+        case 'interface': {
+            // An interface without properties is parsed from an empty schema as well, so
+            // it accepts any value (just like its "any" type in the generated models).
+            if (!model.properties.length && !model.extends.length) {
+                return {};
+            }
+            const required = model.properties.filter(property => property.isRequired).map(property => getPropertyName(property.name));
+            const properties: Record<string, JsonSchema> = {};
+            model.properties.forEach(property => {
+                properties[getPropertyName(property.name)] = getJsonSchema(property, getRef);
+            });
+            return {
+                ...(model.extends.length > 0 && { allOf: model.extends.map(name => ({ $ref: getRef(name) })) }),
+                type: 'object',
+                ...(model.properties.length > 0 && { properties }),
+                ...(required.length > 0 && { required }),
+            };
+        }
+
+        case 'union':
+            // Members of a discriminated union already contain the value of their discriminator
+            // property, so they can only match one of the members, like the "oneOf" of the spec.
+            return {
+                [model.discriminator ? 'oneOf' : 'anyOf']: model.properties.map(property => getJsonSchema(property, getRef)),
+            };
+
+        case 'intersection':
+            return {
+                allOf: model.properties.map(property => getJsonSchema(property, getRef)),
+            };
+
+        default: {
+            const schema = getBaseSchema(model.base, getRef);
+            if (schema.type === 'number' && model.isInteger) {
+                schema.type = 'integer';
+            }
+            return schema;
+        }
+    }
+}
+
+/**
+ * Get the validation keywords of the model, the patterns are unescaped
+ * and the boolean "exclusiveMinimum" of OpenAPI becomes a number.
+ * @param model The model to convert
+ */
+function getConstraints(model: Model): JsonSchema {
+    const schema: JsonSchema = {};
+    if (model.format && model.format !== 'binary') {
+        schema.format = model.format;
+    }
+    if (model.minimum !== undefined) {
+        schema[model.exclusiveMinimum ? 'exclusiveMinimum' : 'minimum'] = model.minimum;
+    }
+    if (model.maximum !== undefined) {
+        schema[model.exclusiveMaximum ? 'exclusiveMaximum' : 'maximum'] = model.maximum;
+    }
+    if (model.multipleOf !== undefined) {
+        schema.multipleOf = model.multipleOf;
+    }
+    if (model.minLength !== undefined) {
+        schema.minLength = model.minLength;
+    }
+    if (model.maxLength !== undefined) {
+        schema.maxLength = model.maxLength;
+    }
+    if (model.pattern !== undefined) {
+        schema.pattern = model.pattern.replace(/\\(['\\])/g, '$1');
+    }
+    if (model.minItems !== undefined) {
+        schema.minItems = model.minItems;
+    }
+    if (model.maxItems !== undefined) {
+        schema.maxItems = model.maxItems;
+    }
+    if (model.uniqueItems) {
+        schema.uniqueItems = true;
+    }
+    if (model.minProperties !== undefined) {
+        schema.minProperties = model.minProperties;
+    }
+    if (model.maxProperties !== undefined) {
+        schema.maxProperties = model.maxProperties;
+    }
+    return schema;
+}
+
+/**
+ * Make the schema nullable. A schema with a single type accepts the "null" type
+ * next to its own type, other schemas (like references) are wrapped in "anyOf".
+ * @param schema The schema to make nullable
+ */
+function getNullable(schema: JsonSchema): JsonSchema {
+    if (!Object.keys(schema).length) {
+        return schema;
+    }
+    if (typeof schema.type === 'string' && !schema.allOf) {
+        return {
+            ...schema,
+            type: [schema.type, 'null'],
+            ...(schema.enum && { enum: schema.enum.includes(null) ? schema.enum : [...schema.enum, null] }),
+        };
+    }
+    return {
+        anyOf: [schema, { type: 'null' }],
+    };
+}
+
+/**
+ * Convert the model to a JSON Schema (draft 2020-12). The OpenAPI keywords are converted
+ * to their JSON Schema equivalent: "nullable" becomes a "null" type, a "discriminator"
+ * becomes a "oneOf" of the tagged members and "readOnly" and "writeOnly" are kept.
+ * @param model The model to convert
+ * @param getRef Returns the reference to the model with the given name
+ */
+export function getJsonSchema(model: Model, getRef: (name: string) => string): JsonSchema {
+    const structure = {
+        ...getStructure(model, getRef),
+        ...getConstraints(model),
+    };
+    const schema = model.isNullable ? getNullable(structure) : structure;
+    if (model.description) {
+        schema.description = model.description.replace(/\r?\n \* /g, '\n');
+    }
+    if (model.default !== undefined) {
+        schema.default = getJsonValue(model.default);
+    }
+    if (model.isReadOnly) {
+        schema.readOnly = true;
+    }
+    if (model.isWriteOnly) {
+        schema.writeOnly = true;
+    }
+    return schema;
+}
@@ -0,0 +1,15 @@
+import { getJsonValue } from './getJsonValue';
+
+describe('getJsonValue', () => {
+    it('should produce correct result', () => {
+        expect(getJsonValue(`'cat'`)).toEqual('cat');
+        expect(getJsonValue(`'it\\'s'`)).toEqual(`it's`);
+        expect(getJsonValue(`''`)).toEqual('');
+        expect(getJsonValue('42')).toEqual(42);
+        expect(getJsonValue('1.5')).toEqual(1.5);
+        expect(getJsonValue('true')).toEqual(true);
+        expect(getJsonValue('null')).toEqual(null);
+        expect(getJsonValue('{\n    "foo": "bar"\n}')).toEqual({ foo: 'bar' });
+        expect(getJsonValue('MyEnum.VALUE')).toEqual('MyEnum.VALUE');
+    });
+});
@@ -0,0 +1,16 @@
+/**
+ * Convert a literal of the generated code back to its JSON value,
+ * this converts: "'cat'" to "cat", "42" to 42 and "null" to null.
+ * @param literal The literal of an enum, const or default value
+ */
+export function getJsonValue(literal: string): any {
+    const value = String(literal);
+    if (value.length >= 2 && value.startsWith("'") && value.endsWith("'")) {
+        return value.slice(1, -1).replace(/\\'/g, "'");
+    }
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        return value;
+    }
+}
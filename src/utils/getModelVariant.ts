@@ -0,0 +1,34 @@
+import type { Model } from '../client/interfaces/Model';
+import { flatMap } from './flatMap';
+
+/**
+ * Get a variant of the model that only contains the properties that match the given filter,
+ * references to other models are renamed using the given callback. This is used to create
+ * the read and write variants of models with readOnly or writeOnly properties.
+ * @param model The model to create the variant for
+ * @param filter Callback to check if a property should be part of the variant
+ * @param getName Callback to get the name of the referenced model in the variant
+ */
+export function getModelVariant<T extends Model>(model: T, filter: (property: Model) => boolean, getName: (name: string) => string): T {
+    // Only the properties of an interface are named properties, the properties
+    // of unions, intersections and tuples are the members of the composition.
+    const properties = (model.export === 'interface' ? model.properties.filter(filter) : model.properties).map(property => getModelVariant(property, filter, getName));
+    const link = model.link && getModelVariant(model.link, filter, getName);
+    const extendsNames = model.extends.map(getName);
+
+    return {
+        ...model,
+        type: model.type.replace(/(?<![\w$'])[A-Za-z_$][\w$]*(?![\w$'])/g, name => getName(name)),
+        base: getName(model.base),
+        template: model.template && getName(model.template),
+        link,
+        imports: model.export === 'interface' ? [...extendsNames, ...flatMap(properties, property => property.imports)] : model.imports.map(getName),
+        extends: extendsNames,
+        enums: model.enums.filter(enumerator => properties.some(property => property.name === enumerator.name)),
+        properties,
+        discriminator: model.discriminator && {
+            ...model.discriminator,
+            mapping: model.discriminator.mapping.map(mapping => ({ ...mapping, name: getName(mapping.name) })),
+        },
+    };
+}
@@ -11,5 +11,15 @@ describe('getOpenApiVersion', () => {
         expect(getOpenApiVersion({ swagger: '3' })).toEqual(3);
         expect(getOpenApiVersion({ swagger: '2.0' })).toEqual(2);
         expect(getOpenApiVersion({ swagger: '3.0' })).toEqual(3);
+
+        expect(getOpenApiVersion({ openapi: '3.0.3' })).toEqual(3);
+        expect(getOpenApiVersion({ openapi: '3.1' })).toEqual(3.1);
+        expect(getOpenApiVersion({ openapi: '3.1.0' })).toEqual(3.1);
+    });
+
+    it('should throw on unsupported versions', () => {
+        expect(() => getOpenApiVersion({ openapi: '1.2' })).toThrow('Unsupported Open API version: "1.2"');
+        expect(() => getOpenApiVersion({ openapi: '30.0' })).toThrow('Unsupported Open API version: "30.0"');
+        expect(() => getOpenApiVersion({})).toThrow('Unsupported Open API version: "undefined"');
     });
 });
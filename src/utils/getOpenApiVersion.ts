@@ -1,10 +1,11 @@
 export enum OpenApiVersion {
     V2 = 2,
     V3 = 3,
+    V3_1 = 3.1,
 }
 
 /**
- * Get the Open API specification version (V2 or V3). This generator only supports
+ * Get the Open API specification version (V2, V3 or V3.1). This generator only supports
  * version 2 and 3 of the specification, so we will alert the user if we encounter
  * an incompatible type. Or if the type is missing...
  * @param openApi The loaded spec (can be any object)
@@ -12,10 +13,16 @@ export enum OpenApiVersion {
 export function getOpenApiVersion(openApi: any): OpenApiVersion {
     const info: any = openApi.swagger || openApi.openapi;
     if (info && typeof info === 'string') {
-        const c = info.charAt(0);
-        const v = Number.parseInt(c);
-        if (v === OpenApiVersion.V2 || v === OpenApiVersion.V3) {
-            return v as OpenApiVersion;
+        const matches = info.match(/^(\d+)(?:\.(\d+))?/);
+        if (matches) {
+            const major = Number.parseInt(matches[1]);
+            const minor = Number.parseInt(matches[2] || '0');
+            if (major === 2) {
+                return OpenApiVersion.V2;
+            }
+            if (major === 3) {
+                return minor >= 1 ? OpenApiVersion.V3_1 : OpenApiVersion.V3;
+            }
         }
     }
     throw new Error(`Unsupported Open API version: "${String(info)}"`);
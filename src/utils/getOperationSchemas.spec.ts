@@ -0,0 +1,95 @@
+import type { Model } from '../client/interfaces/Model';
+import type { Operation } from '../client/interfaces/Operation';
+import type { OperationParameter } from '../client/interfaces/OperationParameter';
+import type { OperationResponse } from '../client/interfaces/OperationResponse';
+import { getOperationSchemas } from './getOperationSchemas';
+
+function getModel(name: string, imports: string[]): Model {
+    return {
+        export: 'interface',
+        name,
+        type: name,
+        base: name,
+        template: null,
+        link: null,
+        description: null,
+        isDefinition: true,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired: false,
+        isNullable: false,
+        imports,
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [],
+    };
+}
+
+function getOperation(parameters: OperationParameter[], results: OperationResponse[], responseType: Operation['responseType'] = null): Operation {
+    return {
+        service: 'Service',
+        name: 'operation',
+        summary: null,
+        description: null,
+        deprecated: false,
+        method: 'POST',
+        path: '/api/models',
+        mediaType: null,
+        encoding: [],
+        requestBodies: [],
+        errors: [],
+        results,
+        responses: results,
+        responseHeaders: [],
+        responseType,
+        security: null,
+        imports: [],
+        parameters,
+        parametersPath: [],
+        parametersQuery: [],
+        parametersForm: [],
+        parametersCookie: [],
+        parametersHeader: [],
+        parametersStyled: [],
+        parametersBody: null,
+    };
+}
+
+describe('getOperationSchemas', () => {
+    const models = [getModel('Pet', ['Category', 'Tag']), getModel('Category', ['Category']), getModel('Tag', []), getModel('Error', [])];
+
+    it('should return the models of the parameters and the models they refer to', () => {
+        const body: OperationParameter = {
+            ...getModel('requestBody', ['Pet']),
+            in: 'body',
+            prop: 'requestBody',
+            style: null,
+            explode: false,
+            mediaType: null,
+        };
+        expect(getOperationSchemas(getOperation([body], []), models)).toEqual(['Category', 'Pet', 'Tag']);
+    });
+
+    it('should return the models of the results', () => {
+        const result: OperationResponse = {
+            ...getModel('Tag', ['Tag']),
+            in: 'response',
+            code: 200,
+            mediaType: null,
+            headers: [],
+        };
+        expect(getOperationSchemas(getOperation([], [result]), models)).toEqual(['Tag']);
+    });
+
+    it('should skip the results of streaming responses', () => {
+        const result: OperationResponse = {
+            ...getModel('Pet', ['Pet']),
+            in: 'response',
+            code: 200,
+            mediaType: null,
+            headers: [],
+        };
+        expect(getOperationSchemas(getOperation([], [result], 'sse'), models)).toEqual([]);
+    });
+});
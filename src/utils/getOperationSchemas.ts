@@ -0,0 +1,28 @@
+import type { Model } from '../client/interfaces/Model';
+import type { Operation } from '../client/interfaces/Operation';
+import { flatMap } from './flatMap';
+import { sort } from './sort';
+
+/**
+ * Get the names of the models that the schemas of an operation refer to. The schemas refer
+ * to models by name, so this includes the models that these models refer to. The results
+ * of streaming and binary responses are not validated, so their models are skipped.
+ * @param operation The operation to get the schemas for
+ * @param models All models of the client
+ */
+export function getOperationSchemas(operation: Operation, models: Model[]): string[] {
+    const names = new Set<string>();
+    const add = (name: string): void => {
+        if (!names.has(name)) {
+            names.add(name);
+            const model = models.find(model => model.name === name);
+            if (model) {
+                model.imports.forEach(add);
+            }
+        }
+    };
+
+    const results = operation.responseType ? [] : operation.results;
+    flatMap([...operation.parameters, ...results], model => model.imports).forEach(add);
+    return Array.from(names).sort(sort);
+}
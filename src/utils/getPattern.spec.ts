@@ -0,0 +1,11 @@
+import { getPattern } from './getPattern';
+
+describe('getPattern', () => {
+    it('should produce correct result', () => {
+        expect(getPattern()).toEqual(undefined);
+        expect(getPattern('')).toEqual('');
+        expect(getPattern('^[a-zA-Z0-9_]*$')).toEqual('^[a-zA-Z0-9_]*$');
+        expect(getPattern('^\\d{3}-\\d{2}$')).toEqual('^\\\\d{3}-\\\\d{2}$');
+        expect(getPattern("^[^']*$")).toEqual("^[^\\']*$");
+    });
+});
@@ -0,0 +1,8 @@
+/**
+ * The pattern is written in a single quoted string, so the backslashes of the
+ * regular expression need to be escaped to survive in the generated code.
+ * @param pattern The pattern of the schema
+ */
+export function getPattern(pattern?: string): string | undefined {
+    return pattern && pattern.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
@@ -0,0 +1,15 @@
+import type { Model } from '../client/interfaces/Model';
+import { getModelVariant } from './getModelVariant';
+
+/**
+ * Get the read variant of the model, this is the model that is returned by the API,
+ * so it does not contain the writeOnly properties.
+ * @param model The model to create the read variant for
+ */
+export function getReadModel<T extends Model>(model: T): T {
+    return getModelVariant(
+        model,
+        property => !property.isWriteOnly,
+        name => name
+    );
+}
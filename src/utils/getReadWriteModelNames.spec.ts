@@ -0,0 +1,50 @@
+import type { Model } from '../client/interfaces/Model';
+import { getReadWriteModelNames } from './getReadWriteModelNames';
+
+function createModel(name: string, values: Partial<Model> = {}): Model {
+    return {
+        export: 'interface',
+        name,
+        type: name,
+        base: name,
+        template: null,
+        link: null,
+        description: null,
+        isDefinition: true,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired: false,
+        isNullable: false,
+        imports: [],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [],
+        ...values,
+    };
+}
+
+describe('getReadWriteModelNames', () => {
+    it('should return the models with readOnly or writeOnly properties', () => {
+        const user = createModel('User', {
+            properties: [createModel('id', { export: 'generic', isDefinition: false, isReadOnly: true })],
+        });
+        const login = createModel('Login', {
+            properties: [createModel('password', { export: 'generic', isDefinition: false, isWriteOnly: true })],
+        });
+        const simple = createModel('Simple', {
+            properties: [createModel('name', { export: 'generic', isDefinition: false })],
+        });
+        expect(getReadWriteModelNames([user, login, simple])).toEqual(['Login', 'User']);
+    });
+
+    it('should return the models that reference them', () => {
+        const user = createModel('User', {
+            properties: [createModel('id', { export: 'generic', isDefinition: false, isReadOnly: true })],
+        });
+        const group = createModel('Group', { imports: ['User'] });
+        const organisation = createModel('Organisation', { imports: ['Group'] });
+        const simple = createModel('Simple');
+        expect(getReadWriteModelNames([organisation, group, user, simple])).toEqual(['Group', 'Organisation', 'User']);
+    });
+});
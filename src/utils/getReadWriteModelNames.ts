@@ -0,0 +1,35 @@
+import type { Model } from '../client/interfaces/Model';
+import { sort } from './sort';
+
+/**
+ * Check if the model, or one of the nested models, has readOnly or writeOnly properties.
+ * @param model The model to check
+ */
+function hasReadWriteProperties(model: Model): boolean {
+    if (model.export === 'interface' && model.properties.some(property => property.isReadOnly || property.isWriteOnly)) {
+        return true;
+    }
+    return model.properties.some(hasReadWriteProperties) || (model.link !== null && hasReadWriteProperties(model.link));
+}
+
+/**
+ * Get the names of the models that need a separate read and write variant. These are
+ * the models with readOnly or writeOnly properties and the models that reference them.
+ * @param models The models of the client
+ */
+export function getReadWriteModelNames(models: Model[]): string[] {
+    const names = models.filter(hasReadWriteProperties).map(model => model.name);
+
+    let found = true;
+    while (found) {
+        found = false;
+        models.forEach(model => {
+            if (!names.includes(model.name) && model.imports.some(name => names.includes(name))) {
+                names.push(model.name);
+                found = true;
+            }
+        });
+    }
+
+    return names.sort(sort);
+}
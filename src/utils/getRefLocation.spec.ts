@@ -0,0 +1,13 @@
+import * as path from 'path';
+
+import { getRefLocation } from './getRefLocation';
+
+describe('getRefLocation', () => {
+    it('should produce correct result', () => {
+        expect(getRefLocation(path.resolve('/api/spec.yaml'), './schemas/user.yaml')).toEqual(path.resolve('/api/schemas/user.yaml'));
+        expect(getRefLocation(path.resolve('/api/spec.yaml'), '../common.yaml')).toEqual(path.resolve('/common.yaml'));
+        expect(getRefLocation(path.resolve('/api/spec.yaml'), 'https://example.com/common.yaml')).toEqual('https://example.com/common.yaml');
+        expect(getRefLocation('https://example.com/api/spec.yaml', './schemas/user.yaml')).toEqual('https://example.com/api/schemas/user.yaml');
+        expect(getRefLocation('http://example.com/api/spec.yaml', '../common.yaml')).toEqual('http://example.com/common.yaml');
+    });
+});
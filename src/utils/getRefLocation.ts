@@ -0,0 +1,21 @@
+import * as path from 'path';
+
+import { isUrl } from './isUrl';
+
+/**
+ * Get the absolute location of the file part of an external reference. This
+ * converts "./schemas/user.yaml" (found inside "/api/spec.yaml") into
+ * "/api/schemas/user.yaml". References found inside a remote document
+ * are resolved as URLs relative to that document.
+ * @param base Location of the document that contains the reference
+ * @param file File part of the reference (everything before the "#")
+ */
+export function getRefLocation(base: string, file: string): string {
+    if (isUrl(file)) {
+        return file;
+    }
+    if (isUrl(base)) {
+        return new URL(file, base).href;
+    }
+    return path.resolve(path.dirname(base), file);
+}
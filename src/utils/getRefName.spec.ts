@@ -0,0 +1,13 @@
+import { getRefName } from './getRefName';
+
+describe('getRefName', () => {
+    it('should produce correct result', () => {
+        expect(getRefName('/api/common.yaml', '/components/schemas/User')).toEqual('User');
+        expect(getRefName('/api/common.yaml', '/User')).toEqual('User');
+        expect(getRefName('/api/common.yaml', '/user_profile')).toEqual('user_profile');
+        expect(getRefName('/api/common.yaml', '/user-profile')).toEqual('UserProfile');
+        expect(getRefName('/api/schemas/user.yaml', '')).toEqual('User');
+        expect(getRefName('/api/schemas/pet-category.json', '')).toEqual('PetCategory');
+        expect(getRefName('https://example.com/schemas/order.yaml', '')).toEqual('Order');
+    });
+});
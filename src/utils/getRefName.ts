@@ -0,0 +1,22 @@
+import camelCase from 'camelcase';
+import * as path from 'path';
+
+import { getJsonPointerSegments } from './getJsonPointerSegments';
+
+/**
+ * Get the model name for an external schema. We use the last segment of the
+ * JSON pointer: "./common.yaml#/components/schemas/User" becomes "User". If the
+ * reference points to a complete file, then we use the name of that file:
+ * "./schemas/user.yaml" becomes "User".
+ * @param location Absolute location of the referenced file
+ * @param pointer The fragment part of the reference (without the "#")
+ */
+export function getRefName(location: string, pointer: string): string {
+    const segments = getJsonPointerSegments(pointer);
+    const name = segments.length ? segments[segments.length - 1] : path.basename(location, path.extname(location));
+    if (segments.length && /^[a-zA-Z_$][\w$]*$/.test(name)) {
+        return name;
+    }
+    const clean = name.replace(/[^\w\s\-]+/g, '-').trim();
+    return camelCase(clean, { pascalCase: true });
+}
@@ -0,0 +1,108 @@
+import type { Operation } from '../client/interfaces/Operation';
+import type { OperationParameter } from '../client/interfaces/OperationParameter';
+import type { Service } from '../client/interfaces/Service';
+import { flatMap } from './flatMap';
+
+interface OperationWithOverloads extends Operation {
+    overloads: Operation[];
+}
+
+/**
+ * Create the "mediaType" parameter that selects the media type of the request body.
+ * @param type The type of the parameter
+ * @param isRequired Whether the parameter is required
+ * @param value The default value of the parameter
+ */
+function getMediaTypeParameter(type: string, isRequired: boolean, value?: string): OperationParameter {
+    return {
+        in: 'body',
+        prop: 'mediaType',
+        style: null,
+        explode: false,
+        mediaType: null,
+        export: 'generic',
+        name: 'mediaType',
+        type,
+        base: type,
+        template: null,
+        link: null,
+        description: 'The media type of the request body',
+        default: value,
+        isDefinition: false,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired,
+        isNullable: false,
+        imports: [],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [],
+    };
+}
+
+/**
+ * Add an overload for each media type of the request body, the implementation accepts
+ * the request body of any of these media types, and a "mediaType" parameter to select
+ * the media type (defaults to the preferred media type).
+ * @param operation The operation to add the overloads to
+ */
+function getOperationOverloads(operation: Operation): OperationWithOverloads {
+    const { parametersBody, mediaType } = operation;
+    if (!parametersBody || !mediaType || operation.requestBodies.length < 2) {
+        return { ...operation, overloads: [] };
+    }
+
+    const requestBodies = [
+        ...operation.requestBodies.filter(requestBody => requestBody.mediaType === mediaType),
+        ...operation.requestBodies.filter(requestBody => requestBody.mediaType !== mediaType),
+    ];
+    const getParameters = (requestBody: OperationParameter): OperationParameter[] => {
+        return operation.parameters.map(parameter => (parameter === parametersBody ? requestBody : parameter));
+    };
+
+    // Overload signatures cannot have default values, so these parameters become optional. The media type
+    // of the other overloads is required, unless it follows an optional parameter.
+    const overloads = requestBodies.map((requestBody, index) => {
+        const parameters = getParameters(requestBody).map(parameter => ({
+            ...parameter,
+            isRequired: parameter.isRequired && !parameter.default,
+            default: undefined,
+        }));
+        const isRequired = index > 0 && parameters.every(parameter => parameter.isRequired);
+        return {
+            ...operation,
+            parameters: [...parameters, getMediaTypeParameter(`'${requestBody.mediaType}'`, isRequired)],
+        };
+    });
+
+    const requestBody: OperationParameter = {
+        ...parametersBody,
+        export: 'union',
+        link: null,
+        isNullable: false,
+        imports: flatMap(requestBodies, requestBody => requestBody.imports),
+        properties: requestBodies,
+    };
+
+    return {
+        ...operation,
+        parameters: [...getParameters(requestBody), getMediaTypeParameter('string', false, `'${mediaType}'`)],
+        parametersBody: requestBody,
+        imports: [...operation.imports, ...requestBody.imports],
+        overloads,
+    };
+}
+
+/**
+ * Add the overloads for the media types of the request bodies to the operations of the service.
+ * @param service The service to update
+ */
+export function getServiceOverloads(service: Service): Service {
+    const operations = service.operations.map(getOperationOverloads);
+    return {
+        ...service,
+        operations,
+        imports: [...service.imports, ...flatMap(operations, operation => operation.imports)],
+    };
+}
@@ -0,0 +1,10 @@
+import { getStringLiteral } from './getStringLiteral';
+
+describe('getStringLiteral', () => {
+    it('should produce correct result', () => {
+        expect(getStringLiteral('')).toEqual(`''`);
+        expect(getStringLiteral('cat')).toEqual(`'cat'`);
+        expect(getStringLiteral(`it's`)).toEqual(`'it\\'s'`);
+        expect(getStringLiteral('a\\b')).toEqual(`'a\\\\b'`);
+    });
+});
@@ -0,0 +1,8 @@
+/**
+ * Convert the value to a single quoted string literal for the generated code,
+ * this converts: "cat" to "'cat'" and "it's" to "'it\'s'".
+ * @param value The value of the string
+ */
+export function getStringLiteral(value: string): string {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
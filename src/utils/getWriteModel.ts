@@ -0,0 +1,18 @@
+import type { Model } from '../client/interfaces/Model';
+import { getModelVariant } from './getModelVariant';
+import { getWriteModelName } from './getWriteModelName';
+
+/**
+ * Get the write variant of the model, this is the model that is sent to the API,
+ * so it does not contain the readOnly properties. References to models that have
+ * a write variant are replaced by a reference to that write variant.
+ * @param model The model to create the write variant for
+ * @param names The names of the models that have a write variant
+ */
+export function getWriteModel<T extends Model>(model: T, names: string[]): T {
+    return getModelVariant(
+        model,
+        property => !property.isReadOnly,
+        name => (names.includes(name) ? getWriteModelName(name) : name)
+    );
+}
@@ -0,0 +1,7 @@
+/**
+ * Get the name of the write variant of a model, this is the model that is used in request bodies.
+ * @param name The name of the model
+ */
+export function getWriteModelName(name: string): string {
+    return `${name}Input`;
+}
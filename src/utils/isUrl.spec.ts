@@ -0,0 +1,11 @@
+import { isUrl } from './isUrl';
+
+describe('isUrl', () => {
+    it('should produce correct result', () => {
+        expect(isUrl('https://example.com/spec.json')).toBeTruthy();
+        expect(isUrl('http://example.com/spec.json')).toBeTruthy();
+        expect(isUrl('./spec.json')).toBeFalsy();
+        expect(isUrl('/api/spec.json')).toBeFalsy();
+        expect(isUrl('C:\\api\\spec.json')).toBeFalsy();
+    });
+});
@@ -1,15 +1,19 @@
 import type { Client } from '../client/interfaces/Client';
 import { postProcessModel } from './postProcessModel';
 import { postProcessService } from './postProcessService';
+import { splitReadWriteModels } from './splitReadWriteModels';
 
 /**
  * Post process client
  * @param client Client object with all the models, services, etc.
+ * @param useReadWriteModels Generate separate models for readOnly and writeOnly properties
  */
-export function postProcessClient(client: Client): Client {
+export function postProcessClient(client: Client, useReadWriteModels: boolean): Client {
+    const clone = useReadWriteModels ? splitReadWriteModels(client) : client;
     return {
-        ...client,
-        models: client.models.map(model => postProcessModel(model)),
-        services: client.services.map(service => postProcessService(service)),
+        ...clone,
+        models: clone.models.map(model => postProcessModel(model)),
+        services: clone.services.map(service => postProcessService(service)),
+        webhooks: clone.webhooks && postProcessService(clone.webhooks),
     };
 }
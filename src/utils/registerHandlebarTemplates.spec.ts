@@ -6,11 +6,17 @@ describe('registerHandlebarTemplates', () => {
         expect(templates.index).toBeDefined();
         expect(templates.exports.model).toBeDefined();
         expect(templates.exports.schema).toBeDefined();
+        expect(templates.exports.schemaIndex).toBeDefined();
         expect(templates.exports.service).toBeDefined();
+        expect(templates.exports.webhooks).toBeDefined();
+        expect(templates.exports.zod).toBeDefined();
         expect(templates.core.settings).toBeDefined();
         expect(templates.core.apiError).toBeDefined();
         expect(templates.core.apiRequestOptions).toBeDefined();
         expect(templates.core.apiResult).toBeDefined();
         expect(templates.core.request).toBeDefined();
+        expect(templates.core.timeoutError).toBeDefined();
+        expect(templates.core.validate).toBeDefined();
+        expect(templates.core.validationError).toBeDefined();
     });
 });
@@ -1,45 +1,104 @@
 import * as Handlebars from 'handlebars/runtime';
 
+import angularGetResponseBody from '../templates/core/angular/getResponseBody.hbs';
+import angularGetResponseHeaders from '../templates/core/angular/getResponseHeaders.hbs';
+import angularRequest from '../templates/core/angular/request.hbs';
+import angularSendRequest from '../templates/core/angular/sendRequest.hbs';
 import templateCoreApiError from '../templates/core/ApiError.hbs';
 import templateCoreApiRequestOptions from '../templates/core/ApiRequestOptions.hbs';
 import templateCoreApiResult from '../templates/core/ApiResult.hbs';
+import axiosAppendFormData from '../templates/core/axios/appendFormData.hbs';
+import axiosGetChunks from '../templates/core/axios/getChunks.hbs';
+import axiosGetHeaders from '../templates/core/axios/getHeaders.hbs';
+import axiosGetRequestBody from '../templates/core/axios/getRequestBody.hbs';
+import axiosGetResponseBody from '../templates/core/axios/getResponseBody.hbs';
+import axiosGetResponseHeaders from '../templates/core/axios/getResponseHeaders.hbs';
+import axiosGetText from '../templates/core/axios/getText.hbs';
+import axiosMultipartData from '../templates/core/axios/MultipartData.hbs';
+import axiosRequest from '../templates/core/axios/request.hbs';
+import axiosSendRequest from '../templates/core/axios/sendRequest.hbs';
+import templateCoreCancelablePromise from '../templates/core/CancelablePromise.hbs';
+import fetchAppendFormData from '../templates/core/fetch/appendFormData.hbs';
+import fetchBase64 from '../templates/core/fetch/base64.hbs';
+import fetchGetChunks from '../templates/core/fetch/getChunks.hbs';
 import fetchGetHeaders from '../templates/core/fetch/getHeaders.hbs';
 import fetchGetRequestBody from '../templates/core/fetch/getRequestBody.hbs';
 import fetchGetResponseBody from '../templates/core/fetch/getResponseBody.hbs';
-import fetchGetResponseHeader from '../templates/core/fetch/getResponseHeader.hbs';
+import fetchGetResponseHeaders from '../templates/core/fetch/getResponseHeaders.hbs';
 import fetchRequest from '../templates/core/fetch/request.hbs';
 import fetchSendRequest from '../templates/core/fetch/sendRequest.hbs';
+import fetchSetCookies from '../templates/core/fetch/setCookies.hbs';
+import functionCancelOnAbort from '../templates/core/functions/cancelOnAbort.hbs';
 import functionCatchErrors from '../templates/core/functions/catchErrors.hbs';
+import functionGetCookies from '../templates/core/functions/getCookies.hbs';
+import functionGetCredential from '../templates/core/functions/getCredential.hbs';
+import functionGetCredentials from '../templates/core/functions/getCredentials.hbs';
+import functionGetEvents from '../templates/core/functions/getEvents.hbs';
 import functionGetFormData from '../templates/core/functions/getFormData.hbs';
+import functionGetLines from '../templates/core/functions/getLines.hbs';
+import functionGetParameterStyle from '../templates/core/functions/getParameterStyle.hbs';
 import functionGetQueryString from '../templates/core/functions/getQueryString.hbs';
+import functionGetResponseHeaderValue from '../templates/core/functions/getResponseHeaderValue.hbs';
+import functionGetRetryDelay from '../templates/core/functions/getRetryDelay.hbs';
+import functionGetSecurity from '../templates/core/functions/getSecurity.hbs';
+import functionGetStream from '../templates/core/functions/getStream.hbs';
+import functionGetTimeout from '../templates/core/functions/getTimeout.hbs';
 import functionGetUrl from '../templates/core/functions/getUrl.hbs';
+import functionGetUrlEncoded from '../templates/core/functions/getUrlEncoded.hbs';
+import functionIntercept from '../templates/core/functions/intercept.hbs';
 import functionIsBinary from '../templates/core/functions/isBinary.hbs';
 import functionIsBlob from '../templates/core/functions/isBlob.hbs';
 import functionIsDefined from '../templates/core/functions/isDefined.hbs';
+import functionIsJsonMediaType from '../templates/core/functions/isJsonMediaType.hbs';
+import functionIsMediaType from '../templates/core/functions/isMediaType.hbs';
+import functionIsStream from '../templates/core/functions/isStream.hbs';
 import functionIsString from '../templates/core/functions/isString.hbs';
 import functionIsSuccess from '../templates/core/functions/isSuccess.hbs';
+import functionIsTextMediaType from '../templates/core/functions/isTextMediaType.hbs';
+import functionRefresh from '../templates/core/functions/refresh.hbs';
+import functionResolveValue from '../templates/core/functions/resolveValue.hbs';
+import functionRetry from '../templates/core/functions/retry.hbs';
+import functionSerializeParameter from '../templates/core/functions/serializeParameter.hbs';
+import functionSleep from '../templates/core/functions/sleep.hbs';
+import functionValidateRequest from '../templates/core/functions/validateRequest.hbs';
+import functionValidateResponse from '../templates/core/functions/validateResponse.hbs';
+import functionWithTimeout from '../templates/core/functions/withTimeout.hbs';
+import nodeAppendFormData from '../templates/core/node/appendFormData.hbs';
+import nodeBase64 from '../templates/core/node/base64.hbs';
+import nodeFormData from '../templates/core/node/FormData.hbs';
+import nodeGetAgent from '../templates/core/node/getAgent.hbs';
+import nodeGetChunks from '../templates/core/node/getChunks.hbs';
 import nodeGetHeaders from '../templates/core/node/getHeaders.hbs';
 import nodeGetRequestBody from '../templates/core/node/getRequestBody.hbs';
 import nodeGetResponseBody from '../templates/core/node/getResponseBody.hbs';
-import nodeGetResponseHeader from '../templates/core/node/getResponseHeader.hbs';
+import nodeGetResponseData from '../templates/core/node/getResponseData.hbs';
+import nodeGetResponseHeaders from '../templates/core/node/getResponseHeaders.hbs';
 import nodeRequest from '../templates/core/node/request.hbs';
 import nodeSendRequest from '../templates/core/node/sendRequest.hbs';
 import templateCoreSettings from '../templates/core/OpenAPI.hbs';
 import templateCoreRequest from '../templates/core/request.hbs';
+import templateCoreTimeoutError from '../templates/core/TimeoutError.hbs';
+import templateCoreValidate from '../templates/core/validate.hbs';
+import templateCoreValidationError from '../templates/core/ValidationError.hbs';
 import xhrGetHeaders from '../templates/core/xhr/getHeaders.hbs';
 import xhrGetRequestBody from '../templates/core/xhr/getRequestBody.hbs';
 import xhrGetResponseBody from '../templates/core/xhr/getResponseBody.hbs';
-import xhrGetResponseHeader from '../templates/core/xhr/getResponseHeader.hbs';
+import xhrGetResponseHeaders from '../templates/core/xhr/getResponseHeaders.hbs';
 import xhrRequest from '../templates/core/xhr/request.hbs';
 import xhrSendRequest from '../templates/core/xhr/sendRequest.hbs';
+import templateExportClient from '../templates/exportClient.hbs';
 import templateExportModel from '../templates/exportModel.hbs';
 import templateExportSchema from '../templates/exportSchema.hbs';
+import templateExportSchemaIndex from '../templates/exportSchemaIndex.hbs';
 import templateExportService from '../templates/exportService.hbs';
+import templateExportWebhooks from '../templates/exportWebhooks.hbs';
+import templateExportZod from '../templates/exportZod.hbs';
 import templateIndex from '../templates/index.hbs';
 import partialBase from '../templates/partials/base.hbs';
 import partialExportEnum from '../templates/partials/exportEnum.hbs';
 import partialExportInterface from '../templates/partials/exportInterface.hbs';
 import partialExportType from '../templates/partials/exportType.hbs';
+import partialExportTypeGuards from '../templates/partials/exportTypeGuards.hbs';
 import partialExtends from '../templates/partials/extends.hbs';
 import partialHeader from '../templates/partials/header.hbs';
 import partialIsNullable from '../templates/partials/isNullable.hbs';
@@ -47,8 +106,13 @@ import partialIsReadOnly from '../templates/partials/isReadOnly.hbs';
 import partialIsRequired from '../templates/partials/isRequired.hbs';
 import partialParameters from '../templates/partials/parameters.hbs';
 import partialResult from '../templates/partials/result.hbs';
+import partialResultBody from '../templates/partials/resultBody.hbs';
+import partialResultHeaders from '../templates/partials/resultHeaders.hbs';
+import partialResultResponses from '../templates/partials/resultResponses.hbs';
 import partialSchema from '../templates/partials/schema.hbs';
 import partialSchemaArray from '../templates/partials/schemaArray.hbs';
+import partialSchemaComposition from '../templates/partials/schemaComposition.hbs';
+import partialSchemaConst from '../templates/partials/schemaConst.hbs';
 import partialSchemaDictionary from '../templates/partials/schemaDictionary.hbs';
 import partialSchemaEnum from '../templates/partials/schemaEnum.hbs';
 import partialSchemaGeneric from '../templates/partials/schemaGeneric.hbs';
@@ -58,23 +122,49 @@ import partialTypeArray from '../templates/partials/typeArray.hbs';
 import partialTypeDictionary from '../templates/partials/typeDictionary.hbs';
 import partialTypeEnum from '../templates/partials/typeEnum.hbs';
 import partialTypeGeneric from '../templates/partials/typeGeneric.hbs';
+import partialTypeHeaders from '../templates/partials/typeHeaders.hbs';
 import partialTypeInterface from '../templates/partials/typeInterface.hbs';
+import partialTypeIntersection from '../templates/partials/typeIntersection.hbs';
 import partialTypeReference from '../templates/partials/typeReference.hbs';
+import partialTypeTuple from '../templates/partials/typeTuple.hbs';
+import partialTypeUnion from '../templates/partials/typeUnion.hbs';
+import partialZod from '../templates/partials/zod.hbs';
+import partialZodAny from '../templates/partials/zodAny.hbs';
+import partialZodArray from '../templates/partials/zodArray.hbs';
+import partialZodBase from '../templates/partials/zodBase.hbs';
+import partialZodComposition from '../templates/partials/zodComposition.hbs';
+import partialZodConst from '../templates/partials/zodConst.hbs';
+import partialZodDictionary from '../templates/partials/zodDictionary.hbs';
+import partialZodEnum from '../templates/partials/zodEnum.hbs';
+import partialZodGeneric from '../templates/partials/zodGeneric.hbs';
+import partialZodInterface from '../templates/partials/zodInterface.hbs';
+import partialZodIsNullable from '../templates/partials/zodIsNullable.hbs';
+import partialZodIsRequired from '../templates/partials/zodIsRequired.hbs';
+import partialZodReference from '../templates/partials/zodReference.hbs';
+import partialZodTuple from '../templates/partials/zodTuple.hbs';
 import { registerHandlebarHelpers } from './registerHandlebarHelpers';
 
 export interface Templates {
     index: Handlebars.TemplateDelegate;
     exports: {
+        client: Handlebars.TemplateDelegate;
         model: Handlebars.TemplateDelegate;
         schema: Handlebars.TemplateDelegate;
+        schemaIndex: Handlebars.TemplateDelegate;
         service: Handlebars.TemplateDelegate;
+        webhooks: Handlebars.TemplateDelegate;
+        zod: Handlebars.TemplateDelegate;
     };
     core: {
         settings: Handlebars.TemplateDelegate;
         apiError: Handlebars.TemplateDelegate;
         apiRequestOptions: Handlebars.TemplateDelegate;
         apiResult: Handlebars.TemplateDelegate;
+        cancelablePromise: Handlebars.TemplateDelegate;
         request: Handlebars.TemplateDelegate;
+        timeoutError: Handlebars.TemplateDelegate;
+        validate: Handlebars.TemplateDelegate;
+        validationError: Handlebars.TemplateDelegate;
     };
 }
 
@@ -89,16 +179,24 @@ export function registerHandlebarTemplates(): Templates {
     const templates: Templates = {
         index: Handlebars.template(templateIndex),
         exports: {
+            client: Handlebars.template(templateExportClient),
             model: Handlebars.template(templateExportModel),
             schema: Handlebars.template(templateExportSchema),
+            schemaIndex: Handlebars.template(templateExportSchemaIndex),
             service: Handlebars.template(templateExportService),
+            webhooks: Handlebars.template(templateExportWebhooks),
+            zod: Handlebars.template(templateExportZod),
         },
         core: {
             settings: Handlebars.template(templateCoreSettings),
             apiError: Handlebars.template(templateCoreApiError),
             apiRequestOptions: Handlebars.template(templateCoreApiRequestOptions),
             apiResult: Handlebars.template(templateCoreApiResult),
+            cancelablePromise: Handlebars.template(templateCoreCancelablePromise),
             request: Handlebars.template(templateCoreRequest),
+            timeoutError: Handlebars.template(templateCoreTimeoutError),
+            validate: Handlebars.template(templateCoreValidate),
+            validationError: Handlebars.template(templateCoreValidationError),
         },
     };
 
@@ -106,6 +204,7 @@ export function registerHandlebarTemplates(): Templates {
     Handlebars.registerPartial('exportEnum', Handlebars.template(partialExportEnum));
     Handlebars.registerPartial('exportInterface', Handlebars.template(partialExportInterface));
     Handlebars.registerPartial('exportType', Handlebars.template(partialExportType));
+    Handlebars.registerPartial('exportTypeGuards', Handlebars.template(partialExportTypeGuards));
     Handlebars.registerPartial('extends', Handlebars.template(partialExtends));
     Handlebars.registerPartial('header', Handlebars.template(partialHeader));
     Handlebars.registerPartial('isNullable', Handlebars.template(partialIsNullable));
@@ -113,8 +212,13 @@ export function registerHandlebarTemplates(): Templates {
     Handlebars.registerPartial('isRequired', Handlebars.template(partialIsRequired));
     Handlebars.registerPartial('parameters', Handlebars.template(partialParameters));
     Handlebars.registerPartial('result', Handlebars.template(partialResult));
+    Handlebars.registerPartial('resultBody', Handlebars.template(partialResultBody));
+    Handlebars.registerPartial('resultHeaders', Handlebars.template(partialResultHeaders));
+    Handlebars.registerPartial('resultResponses', Handlebars.template(partialResultResponses));
     Handlebars.registerPartial('schema', Handlebars.template(partialSchema));
     Handlebars.registerPartial('schemaArray', Handlebars.template(partialSchemaArray));
+    Handlebars.registerPartial('schemaComposition', Handlebars.template(partialSchemaComposition));
+    Handlebars.registerPartial('schemaConst', Handlebars.template(partialSchemaConst));
     Handlebars.registerPartial('schemaDictionary', Handlebars.template(partialSchemaDictionary));
     Handlebars.registerPartial('schemaEnum', Handlebars.template(partialSchemaEnum));
     Handlebars.registerPartial('schemaGeneric', Handlebars.template(partialSchemaGeneric));
@@ -124,44 +228,116 @@ export function registerHandlebarTemplates(): Templates {
     Handlebars.registerPartial('typeDictionary', Handlebars.template(partialTypeDictionary));
     Handlebars.registerPartial('typeEnum', Handlebars.template(partialTypeEnum));
     Handlebars.registerPartial('typeGeneric', Handlebars.template(partialTypeGeneric));
+    Handlebars.registerPartial('typeHeaders', Handlebars.template(partialTypeHeaders));
     Handlebars.registerPartial('typeInterface', Handlebars.template(partialTypeInterface));
+    Handlebars.registerPartial('typeIntersection', Handlebars.template(partialTypeIntersection));
     Handlebars.registerPartial('typeReference', Handlebars.template(partialTypeReference));
+    Handlebars.registerPartial('typeTuple', Handlebars.template(partialTypeTuple));
+    Handlebars.registerPartial('typeUnion', Handlebars.template(partialTypeUnion));
+    Handlebars.registerPartial('zod', Handlebars.template(partialZod));
+    Handlebars.registerPartial('zodAny', Handlebars.template(partialZodAny));
+    Handlebars.registerPartial('zodArray', Handlebars.template(partialZodArray));
+    Handlebars.registerPartial('zodBase', Handlebars.template(partialZodBase));
+    Handlebars.registerPartial('zodComposition', Handlebars.template(partialZodComposition));
+    Handlebars.registerPartial('zodConst', Handlebars.template(partialZodConst));
+    Handlebars.registerPartial('zodDictionary', Handlebars.template(partialZodDictionary));
+    Handlebars.registerPartial('zodEnum', Handlebars.template(partialZodEnum));
+    Handlebars.registerPartial('zodGeneric', Handlebars.template(partialZodGeneric));
+    Handlebars.registerPartial('zodInterface', Handlebars.template(partialZodInterface));
+    Handlebars.registerPartial('zodIsNullable', Handlebars.template(partialZodIsNullable));
+    Handlebars.registerPartial('zodIsRequired', Handlebars.template(partialZodIsRequired));
+    Handlebars.registerPartial('zodReference', Handlebars.template(partialZodReference));
+    Handlebars.registerPartial('zodTuple', Handlebars.template(partialZodTuple));
     Handlebars.registerPartial('base', Handlebars.template(partialBase));
 
     // Generic functions used in 'request' file @see src/templates/core/request.hbs for more info
+    Handlebars.registerPartial('functions/cancelOnAbort', Handlebars.template(functionCancelOnAbort));
     Handlebars.registerPartial('functions/catchErrors', Handlebars.template(functionCatchErrors));
+    Handlebars.registerPartial('functions/getCookies', Handlebars.template(functionGetCookies));
+    Handlebars.registerPartial('functions/getCredential', Handlebars.template(functionGetCredential));
+    Handlebars.registerPartial('functions/getCredentials', Handlebars.template(functionGetCredentials));
+    Handlebars.registerPartial('functions/getEvents', Handlebars.template(functionGetEvents));
     Handlebars.registerPartial('functions/getFormData', Handlebars.template(functionGetFormData));
+    Handlebars.registerPartial('functions/getLines', Handlebars.template(functionGetLines));
+    Handlebars.registerPartial('functions/getParameterStyle', Handlebars.template(functionGetParameterStyle));
     Handlebars.registerPartial('functions/getQueryString', Handlebars.template(functionGetQueryString));
+    Handlebars.registerPartial('functions/getResponseHeaderValue', Handlebars.template(functionGetResponseHeaderValue));
+    Handlebars.registerPartial('functions/getRetryDelay', Handlebars.template(functionGetRetryDelay));
+    Handlebars.registerPartial('functions/getSecurity', Handlebars.template(functionGetSecurity));
+    Handlebars.registerPartial('functions/getStream', Handlebars.template(functionGetStream));
+    Handlebars.registerPartial('functions/getTimeout', Handlebars.template(functionGetTimeout));
     Handlebars.registerPartial('functions/getUrl', Handlebars.template(functionGetUrl));
+    Handlebars.registerPartial('functions/getUrlEncoded', Handlebars.template(functionGetUrlEncoded));
+    Handlebars.registerPartial('functions/intercept', Handlebars.template(functionIntercept));
     Handlebars.registerPartial('functions/isBinary', Handlebars.template(functionIsBinary));
+    Handlebars.registerPartial('functions/isStream', Handlebars.template(functionIsStream));
     Handlebars.registerPartial('functions/isBlob', Handlebars.template(functionIsBlob));
     Handlebars.registerPartial('functions/isDefined', Handlebars.template(functionIsDefined));
+    Handlebars.registerPartial('functions/isJsonMediaType', Handlebars.template(functionIsJsonMediaType));
+    Handlebars.registerPartial('functions/isMediaType', Handlebars.template(functionIsMediaType));
     Handlebars.registerPartial('functions/isString', Handlebars.template(functionIsString));
     Handlebars.registerPartial('functions/isSuccess', Handlebars.template(functionIsSuccess));
+    Handlebars.registerPartial('functions/isTextMediaType', Handlebars.template(functionIsTextMediaType));
+    Handlebars.registerPartial('functions/refresh', Handlebars.template(functionRefresh));
+    Handlebars.registerPartial('functions/resolveValue', Handlebars.template(functionResolveValue));
+    Handlebars.registerPartial('functions/retry', Handlebars.template(functionRetry));
+    Handlebars.registerPartial('functions/serializeParameter', Handlebars.template(functionSerializeParameter));
+    Handlebars.registerPartial('functions/sleep', Handlebars.template(functionSleep));
+    Handlebars.registerPartial('functions/validateRequest', Handlebars.template(functionValidateRequest));
+    Handlebars.registerPartial('functions/validateResponse', Handlebars.template(functionValidateResponse));
+    Handlebars.registerPartial('functions/withTimeout', Handlebars.template(functionWithTimeout));
 
     // Specific files for the fetch client implementation
+    Handlebars.registerPartial('fetch/appendFormData', Handlebars.template(fetchAppendFormData));
+    Handlebars.registerPartial('fetch/base64', Handlebars.template(fetchBase64));
+    Handlebars.registerPartial('fetch/getChunks', Handlebars.template(fetchGetChunks));
     Handlebars.registerPartial('fetch/getHeaders', Handlebars.template(fetchGetHeaders));
     Handlebars.registerPartial('fetch/getRequestBody', Handlebars.template(fetchGetRequestBody));
     Handlebars.registerPartial('fetch/getResponseBody', Handlebars.template(fetchGetResponseBody));
-    Handlebars.registerPartial('fetch/getResponseHeader', Handlebars.template(fetchGetResponseHeader));
+    Handlebars.registerPartial('fetch/getResponseHeaders', Handlebars.template(fetchGetResponseHeaders));
     Handlebars.registerPartial('fetch/sendRequest', Handlebars.template(fetchSendRequest));
+    Handlebars.registerPartial('fetch/setCookies', Handlebars.template(fetchSetCookies));
     Handlebars.registerPartial('fetch/request', Handlebars.template(fetchRequest));
 
     // Specific files for the xhr client implementation
     Handlebars.registerPartial('xhr/getHeaders', Handlebars.template(xhrGetHeaders));
     Handlebars.registerPartial('xhr/getRequestBody', Handlebars.template(xhrGetRequestBody));
     Handlebars.registerPartial('xhr/getResponseBody', Handlebars.template(xhrGetResponseBody));
-    Handlebars.registerPartial('xhr/getResponseHeader', Handlebars.template(xhrGetResponseHeader));
+    Handlebars.registerPartial('xhr/getResponseHeaders', Handlebars.template(xhrGetResponseHeaders));
     Handlebars.registerPartial('xhr/sendRequest', Handlebars.template(xhrSendRequest));
     Handlebars.registerPartial('xhr/request', Handlebars.template(xhrRequest));
 
     // Specific files for the node client implementation
+    Handlebars.registerPartial('node/appendFormData', Handlebars.template(nodeAppendFormData));
+    Handlebars.registerPartial('node/base64', Handlebars.template(nodeBase64));
+    Handlebars.registerPartial('node/FormData', Handlebars.template(nodeFormData));
+    Handlebars.registerPartial('node/getAgent', Handlebars.template(nodeGetAgent));
+    Handlebars.registerPartial('node/getChunks', Handlebars.template(nodeGetChunks));
     Handlebars.registerPartial('node/getHeaders', Handlebars.template(nodeGetHeaders));
     Handlebars.registerPartial('node/getRequestBody', Handlebars.template(nodeGetRequestBody));
     Handlebars.registerPartial('node/getResponseBody', Handlebars.template(nodeGetResponseBody));
-    Handlebars.registerPartial('node/getResponseHeader', Handlebars.template(nodeGetResponseHeader));
+    Handlebars.registerPartial('node/getResponseData', Handlebars.template(nodeGetResponseData));
+    Handlebars.registerPartial('node/getResponseHeaders', Handlebars.template(nodeGetResponseHeaders));
     Handlebars.registerPartial('node/sendRequest', Handlebars.template(nodeSendRequest));
     Handlebars.registerPartial('node/request', Handlebars.template(nodeRequest));
 
+    // Specific files for the axios client implementation
+    Handlebars.registerPartial('axios/appendFormData', Handlebars.template(axiosAppendFormData));
+    Handlebars.registerPartial('axios/getChunks', Handlebars.template(axiosGetChunks));
+    Handlebars.registerPartial('axios/getHeaders', Handlebars.template(axiosGetHeaders));
+    Handlebars.registerPartial('axios/getRequestBody', Handlebars.template(axiosGetRequestBody));
+    Handlebars.registerPartial('axios/getResponseBody', Handlebars.template(axiosGetResponseBody));
+    Handlebars.registerPartial('axios/getResponseHeaders', Handlebars.template(axiosGetResponseHeaders));
+    Handlebars.registerPartial('axios/getText', Handlebars.template(axiosGetText));
+    Handlebars.registerPartial('axios/MultipartData', Handlebars.template(axiosMultipartData));
+    Handlebars.registerPartial('axios/sendRequest', Handlebars.template(axiosSendRequest));
+    Handlebars.registerPartial('axios/request', Handlebars.template(axiosRequest));
+
+    // Specific files for the angular client implementation
+    Handlebars.registerPartial('angular/getResponseBody', Handlebars.template(angularGetResponseBody));
+    Handlebars.registerPartial('angular/getResponseHeaders', Handlebars.template(angularGetResponseHeaders));
+    Handlebars.registerPartial('angular/sendRequest', Handlebars.template(angularSendRequest));
+    Handlebars.registerPartial('angular/request', Handlebars.template(angularRequest));
+
     return templates;
 }
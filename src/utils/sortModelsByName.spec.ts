@@ -13,6 +13,7 @@ describe('sortModelsByName', () => {
             description: null,
             isDefinition: true,
             isReadOnly: false,
+            isWriteOnly: false,
             isRequired: false,
             isNullable: false,
             imports: [],
@@ -31,6 +32,7 @@ describe('sortModelsByName', () => {
             description: null,
             isDefinition: true,
             isReadOnly: false,
+            isWriteOnly: false,
             isRequired: false,
             isNullable: false,
             imports: [],
@@ -49,6 +51,7 @@ describe('sortModelsByName', () => {
             description: null,
             isDefinition: true,
             isReadOnly: false,
+            isWriteOnly: false,
             isRequired: false,
             isNullable: false,
             imports: [],
@@ -0,0 +1,132 @@
+import type { Client } from '../client/interfaces/Client';
+import type { Model } from '../client/interfaces/Model';
+import type { OperationParameter } from '../client/interfaces/OperationParameter';
+import type { OperationResponse } from '../client/interfaces/OperationResponse';
+import { splitReadWriteModels } from './splitReadWriteModels';
+
+function createModel(name: string, values: Partial<Model> = {}): Model {
+    return {
+        export: 'interface',
+        name,
+        type: name,
+        base: name,
+        template: null,
+        link: null,
+        description: null,
+        isDefinition: false,
+        isReadOnly: false,
+        isWriteOnly: false,
+        isRequired: false,
+        isNullable: false,
+        imports: [],
+        extends: [],
+        enum: [],
+        enums: [],
+        properties: [],
+        ...values,
+    };
+}
+
+describe('splitReadWriteModels', () => {
+    it('should split the models and use them in the operations', () => {
+        const user = createModel('User', {
+            isDefinition: true,
+            properties: [
+                createModel('id', { export: 'generic', type: 'number', base: 'number', isReadOnly: true }),
+                createModel('name', { export: 'generic', type: 'string', base: 'string' }),
+                createModel('password', { export: 'generic', type: 'string', base: 'string', isWriteOnly: true }),
+            ],
+        });
+        const group = createModel('Group', {
+            isDefinition: true,
+            imports: ['User'],
+            properties: [createModel('users', { export: 'array', type: 'User', base: 'User', imports: ['User'] })],
+        });
+        const requestBody: OperationParameter = {
+            ...createModel('requestBody', { export: 'reference', type: 'Group', base: 'Group', imports: ['Group'] }),
+            in: 'body',
+            prop: 'body',
+            style: null,
+            explode: false,
+            mediaType: 'application/json',
+        };
+        const result: OperationResponse = {
+            ...createModel('', { export: 'reference', type: 'Group', base: 'Group', imports: ['Group'] }),
+            in: 'response',
+            code: 200,
+            mediaType: null,
+            headers: [],
+        };
+        const client: Client = {
+            version: '1',
+            server: 'http://localhost',
+            models: [group, user],
+            services: [
+                {
+                    name: 'Group',
+                    imports: ['Group'],
+                    operations: [
+                        {
+                            service: 'Group',
+                            name: 'createGroup',
+                            summary: null,
+                            description: null,
+                            deprecated: false,
+                            method: 'POST',
+                            path: '/groups',
+                            mediaType: 'application/json',
+                            encoding: [],
+                            requestBodies: [requestBody],
+                            imports: ['Group'],
+                            parameters: [requestBody],
+                            parametersPath: [],
+                            parametersQuery: [],
+                            parametersForm: [],
+                            parametersCookie: [],
+                            parametersHeader: [],
+                            parametersStyled: [],
+                            parametersBody: requestBody,
+                            errors: [],
+                            results: [result],
+                            responses: [result],
+                            responseHeaders: [],
+                            responseType: null,
+                            security: null,
+                        },
+                    ],
+                },
+            ],
+        };
+
+        const split = splitReadWriteModels(client);
+        expect(split.models.map(model => model.name)).toEqual(['Group', 'GroupInput', 'User', 'UserInput']);
+
+        const [groupRead, groupWrite, userRead, userWrite] = split.models;
+        expect(groupRead.properties[0].base).toEqual('User');
+        expect(groupWrite.properties[0].base).toEqual('UserInput');
+        expect(groupWrite.imports).toEqual(['UserInput']);
+        expect(userRead.properties.map(property => property.name)).toEqual(['id', 'name']);
+        expect(userWrite.properties.map(property => property.name)).toEqual(['name', 'password']);
+
+        const operation = split.services[0].operations[0];
+        expect(operation.parametersBody?.base).toEqual('GroupInput');
+        expect(operation.requestBodies[0].base).toEqual('GroupInput');
+        expect(operation.results[0].base).toEqual('Group');
+        expect(split.services[0].imports).toEqual(['GroupInput', 'Group']);
+    });
+
+    it('should throw an error when the write model already exists', () => {
+        const user = createModel('User', {
+            isDefinition: true,
+            properties: [createModel('id', { export: 'generic', type: 'number', base: 'number', isReadOnly: true })],
+        });
+        const userInput = createModel('UserInput', { isDefinition: true });
+        const client: Client = {
+            version: '1',
+            server: 'http://localhost',
+            models: [user, userInput],
+            services: [],
+        };
+        expect(() => splitReadWriteModels(client)).toThrow('Could not create the write model "UserInput", a model with this name already exists');
+    });
+});
@@ -0,0 +1,69 @@
+import type { Client } from '../client/interfaces/Client';
+import type { OperationParameter } from '../client/interfaces/OperationParameter';
+import type { Service } from '../client/interfaces/Service';
+import { flatMap } from './flatMap';
+import { getReadModel } from './getReadModel';
+import { getReadWriteModelNames } from './getReadWriteModelNames';
+import { getWriteModel } from './getWriteModel';
+import { getWriteModelName } from './getWriteModelName';
+
+/**
+ * Use the write variants of the models in the request bodies of the operations,
+ * and the read variants in the responses.
+ * @param service The service to update
+ * @param names The names of the models that have a write variant
+ */
+function splitReadWriteService(service: Service, names: string[]): Service {
+    const getParameter = (parameter: OperationParameter): OperationParameter => {
+        return parameter.in === 'body' || parameter.in === 'formData' ? getWriteModel(parameter, names) : parameter;
+    };
+
+    const operations = service.operations.map(operation => {
+        const parameters = operation.parameters.map(getParameter);
+        const results = operation.results.map(result => getReadModel(result));
+        return {
+            ...operation,
+            parameters,
+            parametersForm: operation.parametersForm.map(getParameter),
+            parametersBody: operation.parametersBody && getParameter(operation.parametersBody),
+            requestBodies: operation.requestBodies.map(getParameter),
+            results,
+            responses: operation.responses.map(response => getReadModel(response)),
+            errors: operation.errors.map(error => getReadModel(error)),
+            imports: [...flatMap(parameters, parameter => parameter.imports), ...flatMap(results, result => result.imports)],
+        };
+    });
+
+    return {
+        ...service,
+        operations,
+        imports: flatMap(operations, operation => operation.imports),
+    };
+}
+
+/**
+ * Split the models with readOnly or writeOnly properties in a read variant (named "User")
+ * without the writeOnly properties, and a write variant (named "UserInput") without
+ * the readOnly properties. Request bodies use the write variant, responses use the read variant.
+ * @param client Client object with all the models, services, etc.
+ */
+export function splitReadWriteModels(client: Client): Client {
+    const names = getReadWriteModelNames(client.models);
+
+    const models = flatMap(client.models, model => {
+        if (!names.includes(model.name)) {
+            return [model];
+        }
+        const name = getWriteModelName(model.name);
+        if (client.models.some(existing => existing.name === name)) {
+            throw new Error(`Could not create the write model "${name}", a model with this name already exists`);
+        }
+        return [getReadModel(model), { ...getWriteModel(model, names), name }];
+    });
+
+    return {
+        ...client,
+        models,
+        services: client.services.map(service => splitReadWriteService(service, names)),
+    };
+}
@@ -1,5 +1,5 @@
 import type { Client } from '../client/interfaces/Client';
-import { HttpClient } from '../index';
+import { ErrorStyle, HttpClient } from '../index';
 import { mkdir, rmdir, writeFile } from './fileSystem';
 import { Templates } from './registerHandlebarTemplates';
 import { writeClient } from './writeClient';
@@ -18,20 +18,28 @@ describe('writeClient', () => {
         const templates: Templates = {
             index: () => 'index',
             exports: {
+                client: () => 'client',
                 model: () => 'model',
                 schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
                 service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
             },
             core: {
                 settings: () => 'settings',
                 apiError: () => 'apiError',
                 apiRequestOptions: () => 'apiRequestOptions',
                 apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
                 request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
             },
         };
 
-        await writeClient(client, templates, './dist', HttpClient.FETCH, false, false, true, true, true, true);
+        await writeClient(client, templates, './dist', HttpClient.FETCH, false, false, true, true, true, true, false, false, ErrorStyle.THROW, false, false);
 
         expect(rmdir).toBeCalled();
         expect(mkdir).toBeCalled();
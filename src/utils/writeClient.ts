@@ -1,28 +1,38 @@
 import * as path from 'path';
 
 import type { Client } from '../client/interfaces/Client';
-import { HttpClient } from '../index';
+import { ErrorStyle, HttpClient } from '../index';
 import { mkdir, rmdir } from './fileSystem';
 import { isSubDirectory } from './isSubdirectory';
 import { Templates } from './registerHandlebarTemplates';
+import { writeClientClass } from './writeClientClass';
 import { writeClientCore } from './writeClientCore';
 import { writeClientIndex } from './writeClientIndex';
+import { writeClientJsonSchemas } from './writeClientJsonSchemas';
 import { writeClientModels } from './writeClientModels';
 import { writeClientSchemas } from './writeClientSchemas';
 import { writeClientServices } from './writeClientServices';
+import { writeClientWebhooks } from './writeClientWebhooks';
+import { writeClientZod } from './writeClientZod';
 
 /**
  * Write our OpenAPI client, using the given templates at the given output path.
  * @param client Client object with all the models, services, etc.
  * @param templates Templates wrapper with all loaded Handlebars templates
  * @param output The relative location of the output directory
- * @param httpClient The selected httpClient (fetch, xhr or node)
+ * @param httpClient The selected httpClient (fetch, xhr, node, axios or angular)
  * @param useOptions Use options or arguments functions
  * @param useUnionTypes Use union types instead of enums
  * @param exportCore: Generate core client classes
  * @param exportServices: Generate services
  * @param exportModels: Generate models
  * @param exportSchemas: Generate schemas
+ * @param exportZod: Generate zod schemas
+ * @param exportJsonSchemas: Generate JSON Schema documents
+ * @param errorStyle: How services handle error responses (throw, typed or result)
+ * @param useMediaTypeOverloads: Generate an overload for each media type of the request body
+ * @param useValidation: Generate the schemas that the services validate their requests and responses against
+ * @param clientName: Generate a client class with this name, instead of services with static methods
  */
 export async function writeClient(
     client: Client,
@@ -34,18 +44,30 @@ export async function writeClient(
     exportCore: boolean,
     exportServices: boolean,
     exportModels: boolean,
-    exportSchemas: boolean
+    exportSchemas: boolean,
+    exportZod: boolean,
+    exportJsonSchemas: boolean,
+    errorStyle: ErrorStyle,
+    useMediaTypeOverloads: boolean,
+    useValidation: boolean,
+    clientName?: string
 ): Promise<void> {
     const outputPath = path.resolve(process.cwd(), output);
     const outputPathCore = path.resolve(outputPath, 'core');
+    const outputPathJsonSchemas = path.resolve(outputPath, 'jsonSchemas');
     const outputPathModels = path.resolve(outputPath, 'models');
     const outputPathSchemas = path.resolve(outputPath, 'schemas');
     const outputPathServices = path.resolve(outputPath, 'services');
+    const outputPathZod = path.resolve(outputPath, 'zod');
 
     if (!isSubDirectory(process.cwd(), output)) {
         throw new Error(`Output folder is not a subdirectory of the current working directory`);
     }
 
+    if (clientName && httpClient === HttpClient.ANGULAR) {
+        throw new Error(`Could not generate client "${clientName}", the services of the angular client are injected instead`);
+    }
+
     await rmdir(outputPath);
     await mkdir(outputPath);
 
@@ -56,10 +78,19 @@ export async function writeClient(
 
     if (exportServices) {
         await mkdir(outputPathServices);
-        await writeClientServices(client.services, templates, outputPathServices, httpClient, useUnionTypes, useOptions);
+        await writeClientServices(client.services, client.models, templates, outputPathServices, httpClient, useUnionTypes, useOptions, useValidation, errorStyle, useMediaTypeOverloads, clientName);
+    }
+
+    if (exportCore && exportServices && clientName) {
+        await writeClientClass(client, templates, outputPath, clientName);
+    }
+
+    if (exportServices && client.webhooks && client.webhooks.operations.length) {
+        await writeClientWebhooks(client.webhooks, templates, outputPath, httpClient, useUnionTypes);
     }
 
-    if (exportSchemas) {
+    // The services import the schemas of their operations to validate them.
+    if (exportSchemas || (exportServices && useValidation)) {
         await mkdir(outputPathSchemas);
         await writeClientSchemas(client.models, templates, outputPathSchemas, httpClient, useUnionTypes);
     }
@@ -69,5 +100,15 @@ export async function writeClient(
         await writeClientModels(client.models, templates, outputPathModels, httpClient, useUnionTypes);
     }
 
-    await writeClientIndex(client, templates, outputPath, useUnionTypes, exportCore, exportServices, exportModels, exportSchemas);
+    if (exportZod) {
+        await mkdir(outputPathZod);
+        await writeClientZod(client.models, templates, outputPathZod, httpClient, useUnionTypes);
+    }
+
+    if (exportJsonSchemas) {
+        await mkdir(outputPathJsonSchemas);
+        await writeClientJsonSchemas(client.models, outputPathJsonSchemas);
+    }
+
+    await writeClientIndex(client, templates, outputPath, useUnionTypes, exportCore, exportServices, exportModels, exportSchemas, exportZod, errorStyle, httpClient, clientName);
 }
@@ -0,0 +1,45 @@
+import type { Client } from '../client/interfaces/Client';
+import { writeFile } from './fileSystem';
+import { Templates } from './registerHandlebarTemplates';
+import { writeClientClass } from './writeClientClass';
+
+jest.mock('./fileSystem');
+
+describe('writeClientClass', () => {
+    it('should write to filesystem', async () => {
+        const client: Client = {
+            server: 'http://localhost:8080',
+            version: 'v1',
+            models: [],
+            services: [],
+        };
+
+        const templates: Templates = {
+            index: () => 'index',
+            exports: {
+                client: () => 'client',
+                model: () => 'model',
+                schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
+                service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
+            },
+            core: {
+                settings: () => 'settings',
+                apiError: () => 'apiError',
+                apiRequestOptions: () => 'apiRequestOptions',
+                apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
+                request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
+            },
+        };
+
+        await writeClientClass(client, templates, '/', 'AppClient');
+
+        expect(writeFile).toBeCalledWith('/AppClient.ts', 'client');
+    });
+});
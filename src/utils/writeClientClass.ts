@@ -0,0 +1,30 @@
+import camelCase from 'camelcase';
+import * as path from 'path';
+
+import type { Client } from '../client/interfaces/Client';
+import { writeFile } from './fileSystem';
+import { format } from './format';
+import { Templates } from './registerHandlebarTemplates';
+import { sortServicesByName } from './sortServicesByName';
+
+/**
+ * Generate the client class using the Handlebar template and write to disk. The client class
+ * creates an instance of each service, these instances share the config of the client.
+ * @param client Client object, containing, models, schemas and services
+ * @param templates The loaded handlebar templates
+ * @param outputPath Directory to write the generated files to
+ * @param clientName Name of the client class
+ */
+export async function writeClientClass(client: Client, templates: Templates, outputPath: string, clientName: string): Promise<void> {
+    const file = path.resolve(outputPath, `${clientName}.ts`);
+    const templateResult = templates.exports.client({
+        clientName,
+        server: client.server,
+        version: client.version,
+        services: sortServicesByName(client.services).map(service => ({
+            ...service,
+            property: camelCase(service.name.replace(/(.)Service$/, '$1')),
+        })),
+    });
+    await writeFile(file, format(templateResult));
+}
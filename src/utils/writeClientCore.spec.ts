@@ -18,16 +18,24 @@ describe('writeClientCore', () => {
         const templates: Templates = {
             index: () => 'index',
             exports: {
+                client: () => 'client',
                 model: () => 'model',
                 schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
                 service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
             },
             core: {
                 settings: () => 'settings',
                 apiError: () => 'apiError',
                 apiRequestOptions: () => 'apiRequestOptions',
                 apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
                 request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
             },
         };
 
@@ -37,6 +45,10 @@ describe('writeClientCore', () => {
         expect(writeFile).toBeCalledWith('/ApiError.ts', 'apiError');
         expect(writeFile).toBeCalledWith('/ApiRequestOptions.ts', 'apiRequestOptions');
         expect(writeFile).toBeCalledWith('/ApiResult.ts', 'apiResult');
+        expect(writeFile).toBeCalledWith('/CancelablePromise.ts', 'cancelablePromise');
         expect(writeFile).toBeCalledWith('/request.ts', 'request');
+        expect(writeFile).toBeCalledWith('/TimeoutError.ts', 'timeoutError');
+        expect(writeFile).toBeCalledWith('/validate.ts', 'validate');
+        expect(writeFile).toBeCalledWith('/ValidationError.ts', 'validationError');
     });
 });
@@ -10,7 +10,7 @@ import { Templates } from './registerHandlebarTemplates';
  * @param client Client object, containing, models, schemas and services
  * @param templates The loaded handlebar templates
  * @param outputPath Directory to write the generated files to
- * @param httpClient The selected httpClient (fetch, xhr or node)
+ * @param httpClient The selected httpClient (fetch, xhr, node, axios or angular)
  */
 export async function writeClientCore(client: Client, templates: Templates, outputPath: string, httpClient: HttpClient): Promise<void> {
     const context = {
@@ -22,5 +22,9 @@ export async function writeClientCore(client: Client, templates: Templates, outp
     await writeFile(path.resolve(outputPath, 'ApiError.ts'), templates.core.apiError({}));
     await writeFile(path.resolve(outputPath, 'ApiRequestOptions.ts'), templates.core.apiRequestOptions({}));
     await writeFile(path.resolve(outputPath, 'ApiResult.ts'), templates.core.apiResult({}));
+    await writeFile(path.resolve(outputPath, 'CancelablePromise.ts'), templates.core.cancelablePromise({}));
     await writeFile(path.resolve(outputPath, 'request.ts'), templates.core.request(context));
+    await writeFile(path.resolve(outputPath, 'TimeoutError.ts'), templates.core.timeoutError({}));
+    await writeFile(path.resolve(outputPath, 'validate.ts'), templates.core.validate({}));
+    await writeFile(path.resolve(outputPath, 'ValidationError.ts'), templates.core.validationError({}));
 }
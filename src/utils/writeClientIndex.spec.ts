@@ -17,16 +17,24 @@ describe('writeClientIndex', () => {
         const templates: Templates = {
             index: () => 'index',
             exports: {
+                client: () => 'client',
                 model: () => 'model',
                 schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
                 service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
             },
             core: {
                 settings: () => 'settings',
                 apiError: () => 'apiError',
                 apiRequestOptions: () => 'apiRequestOptions',
                 apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
                 request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
             },
         };
 
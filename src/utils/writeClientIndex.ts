@@ -1,6 +1,7 @@
 import * as path from 'path';
 
 import type { Client } from '../client/interfaces/Client';
+import { ErrorStyle, HttpClient } from '../index';
 import { writeFile } from './fileSystem';
 import { Templates } from './registerHandlebarTemplates';
 import { sortModelsByName } from './sortModelsByName';
@@ -18,6 +19,10 @@ import { sortServicesByName } from './sortServicesByName';
  * @param exportServices: Generate services
  * @param exportModels: Generate models
  * @param exportSchemas: Generate schemas
+ * @param exportZod: Generate zod schemas
+ * @param errorStyle: How services handle error responses (throw, typed or result)
+ * @param httpClient: The selected httpClient (fetch, xhr, node, axios or angular)
+ * @param clientName: Name of the client class (if any)
  */
 export async function writeClientIndex(
     client: Client,
@@ -27,7 +32,11 @@ export async function writeClientIndex(
     exportCore: boolean,
     exportServices: boolean,
     exportModels: boolean,
-    exportSchemas: boolean
+    exportSchemas: boolean,
+    exportZod: boolean,
+    errorStyle: ErrorStyle,
+    httpClient: HttpClient,
+    clientName?: string
 ): Promise<void> {
     await writeFile(
         path.resolve(outputPath, 'index.ts'),
@@ -36,11 +45,16 @@ export async function writeClientIndex(
             exportServices,
             exportModels,
             exportSchemas,
+            exportZod,
             useUnionTypes,
+            errorStyle,
+            httpClient,
+            clientName: exportCore && exportServices ? clientName : undefined,
             server: client.server,
             version: client.version,
             models: sortModelsByName(client.models),
             services: sortServicesByName(client.services),
+            webhooks: client.webhooks ? client.webhooks.operations : [],
         })
     );
 }
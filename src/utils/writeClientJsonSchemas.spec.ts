@@ -0,0 +1,63 @@
+import type { Model } from '../client/interfaces/Model';
+import { writeFile } from './fileSystem';
+import { writeClientJsonSchemas } from './writeClientJsonSchemas';
+
+jest.mock('./fileSystem');
+
+describe('writeClientJsonSchemas', () => {
+    it('should write to filesystem', async () => {
+        const models: Model[] = [
+            {
+                export: 'reference',
+                name: 'MyModel',
+                type: 'MyOtherModel',
+                base: 'MyOtherModel',
+                template: null,
+                link: null,
+                description: null,
+                isDefinition: true,
+                isReadOnly: false,
+                isWriteOnly: false,
+                isRequired: false,
+                isNullable: false,
+                imports: ['MyOtherModel'],
+                extends: [],
+                enum: [],
+                enums: [],
+                properties: [],
+            },
+        ];
+
+        await writeClientJsonSchemas(models, '/');
+
+        expect(writeFile).toBeCalledWith(
+            '/MyModel.json',
+            `${JSON.stringify(
+                {
+                    $schema: 'https://json-schema.org/draft/2020-12/schema',
+                    $id: 'MyModel.json',
+                    title: 'MyModel',
+                    $ref: 'MyOtherModel.json',
+                },
+                null,
+                4
+            )}\n`
+        );
+        expect(writeFile).toBeCalledWith(
+            '/bundle.schema.json',
+            `${JSON.stringify(
+                {
+                    $schema: 'https://json-schema.org/draft/2020-12/schema',
+                    $defs: {
+                        MyModel: {
+                            title: 'MyModel',
+                            $ref: '#/$defs/MyOtherModel',
+                        },
+                    },
+                },
+                null,
+                4
+            )}\n`
+        );
+    });
+});
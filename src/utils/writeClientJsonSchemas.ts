@@ -0,0 +1,41 @@
+import * as path from 'path';
+
+import type { Model } from '../client/interfaces/Model';
+import { writeFile } from './fileSystem';
+import { getJsonSchema } from './getJsonSchema';
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+/**
+ * Generate a JSON Schema document for every model and a bundle with all models
+ * in "$defs" and write them to disk. The documents reference each other by their
+ * file name, the bundle references the models in its own "$defs". The name of
+ * the bundle contains a dot, so it never collides with the file of a model.
+ * @param models Array of Models to write
+ * @param outputPath Directory to write the generated files to
+ */
+export async function writeClientJsonSchemas(models: Model[], outputPath: string): Promise<void> {
+    const defs: Record<string, any> = {};
+
+    for (const model of models) {
+        const file = path.resolve(outputPath, `${model.name}.json`);
+        const schema = {
+            $schema: JSON_SCHEMA_DIALECT,
+            $id: `${model.name}.json`,
+            title: model.name,
+            ...getJsonSchema(model, name => `${name}.json`),
+        };
+        await writeFile(file, `${JSON.stringify(schema, null, 4)}\n`);
+
+        defs[model.name] = {
+            title: model.name,
+            ...getJsonSchema(model, name => `#/$defs/${name}`),
+        };
+    }
+
+    const bundle = {
+        $schema: JSON_SCHEMA_DIALECT,
+        $defs: defs,
+    };
+    await writeFile(path.resolve(outputPath, 'bundle.schema.json'), `${JSON.stringify(bundle, null, 4)}\n`);
+}
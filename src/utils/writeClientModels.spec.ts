@@ -18,6 +18,7 @@ describe('writeClientModels', () => {
                 description: null,
                 isDefinition: true,
                 isReadOnly: false,
+                isWriteOnly: false,
                 isRequired: false,
                 isNullable: false,
                 imports: [],
@@ -31,16 +32,24 @@ describe('writeClientModels', () => {
         const templates: Templates = {
             index: () => 'index',
             exports: {
+                client: () => 'client',
                 model: () => 'model',
                 schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
                 service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
             },
             core: {
                 settings: () => 'settings',
                 apiError: () => 'apiError',
                 apiRequestOptions: () => 'apiRequestOptions',
                 apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
                 request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
             },
         };
 
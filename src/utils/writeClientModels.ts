@@ -11,7 +11,7 @@ import { Templates } from './registerHandlebarTemplates';
  * @param models Array of Models to write
  * @param templates The loaded handlebar templates
  * @param outputPath Directory to write the generated files to
- * @param httpClient The selected httpClient (fetch, xhr or node)
+ * @param httpClient The selected httpClient (fetch, xhr, node, axios or angular)
  * @param useUnionTypes Use union types instead of enums
  */
 export async function writeClientModels(models: Model[], templates: Templates, outputPath: string, httpClient: HttpClient, useUnionTypes: boolean): Promise<void> {
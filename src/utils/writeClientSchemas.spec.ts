@@ -18,6 +18,7 @@ describe('writeClientSchemas', () => {
                 description: null,
                 isDefinition: true,
                 isReadOnly: false,
+                isWriteOnly: false,
                 isRequired: false,
                 isNullable: false,
                 imports: [],
@@ -31,21 +32,30 @@ describe('writeClientSchemas', () => {
         const templates: Templates = {
             index: () => 'index',
             exports: {
+                client: () => 'client',
                 model: () => 'model',
                 schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
                 service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
             },
             core: {
                 settings: () => 'settings',
                 apiError: () => 'apiError',
                 apiRequestOptions: () => 'apiRequestOptions',
                 apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
                 request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
             },
         };
 
         await writeClientSchemas(models, templates, '/');
 
         expect(writeFile).toBeCalledWith('/$MyModel.ts', 'schema');
+        expect(writeFile).toBeCalledWith('/index.ts', 'schemaIndex');
     });
 });
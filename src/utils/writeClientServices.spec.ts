@@ -1,4 +1,5 @@
 import type { Service } from '../client/interfaces/Service';
+import { ErrorStyle, HttpClient } from '../index';
 import { writeFile } from './fileSystem';
 import { Templates } from './registerHandlebarTemplates';
 import { writeClientServices } from './writeClientServices';
@@ -18,20 +19,28 @@ describe('writeClientServices', () => {
         const templates: Templates = {
             index: () => 'index',
             exports: {
+                client: () => 'client',
                 model: () => 'model',
                 schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
                 service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
             },
             core: {
                 settings: () => 'settings',
                 apiError: () => 'apiError',
                 apiRequestOptions: () => 'apiRequestOptions',
                 apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
                 request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
             },
         };
 
-        await writeClientServices(services, templates, '/', false);
+        await writeClientServices(services, [], templates, '/', 'fetch' as HttpClient, false, false, false, ErrorStyle.THROW, false);
 
         expect(writeFile).toBeCalledWith('/MyService.ts', 'service');
     });
@@ -1,32 +1,70 @@
 import * as path from 'path';
 
+import type { Model } from '../client/interfaces/Model';
 import type { Service } from '../client/interfaces/Service';
-import { HttpClient } from '../index';
+import { ErrorStyle, HttpClient } from '../index';
 import { writeFile } from './fileSystem';
+import { flatMap } from './flatMap';
 import { format } from './format';
+import { getOperationSchemas } from './getOperationSchemas';
+import { getServiceOverloads } from './getServiceOverloads';
 import { Templates } from './registerHandlebarTemplates';
-
-const VERSION_TEMPLATE_STRING = 'OpenAPI.VERSION';
+import { sort } from './sort';
+import { unique } from './unique';
 
 /**
  * Generate Services using the Handlebar template and write to disk.
  * @param services Array of Services to write
+ * @param models Array of Models, the schemas of these models are imported for the validation
  * @param templates The loaded handlebar templates
  * @param outputPath Directory to write the generated files to
- * @param httpClient The selected httpClient (fetch, xhr or node)
+ * @param httpClient The selected httpClient (fetch, xhr, node, axios or angular)
  * @param useUnionTypes Use union types instead of enums
  * @param useOptions Use options or arguments functions
+ * @param useValidation Validate the requests and responses against the generated schemas
+ * @param errorStyle How services handle error responses (throw, typed or result)
+ * @param useMediaTypeOverloads Generate an overload for each media type of the request body
+ * @param clientName Name of the client class, services are generated with instance methods when given
  */
-export async function writeClientServices(services: Service[], templates: Templates, outputPath: string, httpClient: HttpClient, useUnionTypes: boolean, useOptions: boolean): Promise<void> {
-    for (const service of services) {
+export async function writeClientServices(
+    services: Service[],
+    models: Model[],
+    templates: Templates,
+    outputPath: string,
+    httpClient: HttpClient,
+    useUnionTypes: boolean,
+    useOptions: boolean,
+    useValidation: boolean,
+    errorStyle: ErrorStyle,
+    useMediaTypeOverloads: boolean,
+    clientName?: string
+): Promise<void> {
+    for (const service of useMediaTypeOverloads ? services.map(getServiceOverloads) : services) {
         const file = path.resolve(outputPath, `${service.name}.ts`);
-        const useVersion = service.operations.some(operation => operation.path.includes(VERSION_TEMPLATE_STRING));
+
+        // The models of the error responses are only used when the errors are typed.
+        const imports = errorStyle === ErrorStyle.THROW ? service.imports : [...service.imports, ...flatMap(service.operations, operation => flatMap(operation.errors, error => error.imports))];
+
+        // Each operation only gets the schemas it validates against, the service imports all of these.
+        const operations = service.operations.map(operation => ({
+            ...operation,
+            schemas: useValidation ? getOperationSchemas(operation, models) : [],
+        }));
+
         const templateResult = templates.exports.service({
             ...service,
+            operations,
+            imports: imports.filter(unique).sort(sort),
+            schemas: flatMap(operations, operation => operation.schemas)
+                .filter(unique)
+                .sort(sort),
             httpClient,
             useUnionTypes,
-            useVersion,
             useOptions,
+            useValidation,
+            errorStyle,
+            useMediaTypeOverloads,
+            clientName,
         });
         await writeFile(file, format(templateResult));
     }
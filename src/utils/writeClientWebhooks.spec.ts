@@ -0,0 +1,45 @@
+import type { Service } from '../client/interfaces/Service';
+import type { HttpClient } from '../index';
+import { writeFile } from './fileSystem';
+import { Templates } from './registerHandlebarTemplates';
+import { writeClientWebhooks } from './writeClientWebhooks';
+
+jest.mock('./fileSystem');
+
+describe('writeClientWebhooks', () => {
+    it('should write to filesystem', async () => {
+        const webhooks: Service = {
+            name: 'Webhooks',
+            operations: [],
+            imports: [],
+        };
+
+        const templates: Templates = {
+            index: () => 'index',
+            exports: {
+                client: () => 'client',
+                model: () => 'model',
+                schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
+                service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
+            },
+            core: {
+                settings: () => 'settings',
+                apiError: () => 'apiError',
+                apiRequestOptions: () => 'apiRequestOptions',
+                apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
+                request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
+            },
+        };
+
+        await writeClientWebhooks(webhooks, templates, '/', 'fetch' as HttpClient, false);
+
+        expect(writeFile).toBeCalledWith('/webhooks.ts', 'webhooks');
+    });
+});
@@ -0,0 +1,26 @@
+import * as path from 'path';
+
+import type { Service } from '../client/interfaces/Service';
+import { HttpClient } from '../index';
+import { writeFile } from './fileSystem';
+import { format } from './format';
+import { Templates } from './registerHandlebarTemplates';
+
+/**
+ * Generate the webhook handler types using the Handlebar template and write to disk.
+ * @param webhooks Service that contains the webhooks as operations
+ * @param templates The loaded handlebar templates
+ * @param outputPath Directory to write the generated files to
+ * @param httpClient The selected httpClient (fetch, xhr, node, axios or angular)
+ * @param useUnionTypes Use union types instead of enums
+ */
+export async function writeClientWebhooks(webhooks: Service, templates: Templates, outputPath: string, httpClient: HttpClient, useUnionTypes: boolean): Promise<void> {
+    const file = path.resolve(outputPath, 'webhooks.ts');
+    const templateResult = templates.exports.webhooks({
+        ...webhooks,
+        httpClient,
+        useUnionTypes,
+        useOptions: false,
+    });
+    await writeFile(file, format(templateResult));
+}
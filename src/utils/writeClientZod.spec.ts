@@ -0,0 +1,61 @@
+import type { Model } from '../client/interfaces/Model';
+import type { HttpClient } from '../index';
+import { writeFile } from './fileSystem';
+import { Templates } from './registerHandlebarTemplates';
+import { writeClientZod } from './writeClientZod';
+
+jest.mock('./fileSystem');
+
+describe('writeClientZod', () => {
+    it('should write to filesystem', async () => {
+        const models: Model[] = [
+            {
+                export: 'interface',
+                name: 'MyModel',
+                type: 'MyModel',
+                base: 'MyModel',
+                template: null,
+                link: null,
+                description: null,
+                isDefinition: true,
+                isReadOnly: false,
+                isWriteOnly: false,
+                isRequired: false,
+                isNullable: false,
+                imports: [],
+                extends: [],
+                enum: [],
+                enums: [],
+                properties: [],
+            },
+        ];
+
+        const templates: Templates = {
+            index: () => 'index',
+            exports: {
+                client: () => 'client',
+                model: () => 'model',
+                schema: () => 'schema',
+                schemaIndex: () => 'schemaIndex',
+                service: () => 'service',
+                webhooks: () => 'webhooks',
+                zod: () => 'zod',
+            },
+            core: {
+                settings: () => 'settings',
+                apiError: () => 'apiError',
+                apiRequestOptions: () => 'apiRequestOptions',
+                apiResult: () => 'apiResult',
+                cancelablePromise: () => 'cancelablePromise',
+                request: () => 'request',
+                timeoutError: () => 'timeoutError',
+                validate: () => 'validate',
+                validationError: () => 'validationError',
+            },
+        };
+
+        await writeClientZod(models, templates, '/', 'fetch' as HttpClient, false);
+
+        expect(writeFile).toBeCalledWith('/MyModel.ts', 'zod');
+    });
+});
@@ -0,0 +1,27 @@
+import * as path from 'path';
+
+import type { Model } from '../client/interfaces/Model';
+import { HttpClient } from '../index';
+import { writeFile } from './fileSystem';
+import { format } from './format';
+import { Templates } from './registerHandlebarTemplates';
+
+/**
+ * Generate Zod schemas using the Handlebar template and write to disk.
+ * @param models Array of Models to write
+ * @param templates The loaded handlebar templates
+ * @param outputPath Directory to write the generated files to
+ * @param httpClient The selected httpClient (fetch, xhr, node, axios or angular)
+ * @param useUnionTypes Use union types instead of enums
+ */
+export async function writeClientZod(models: Model[], templates: Templates, outputPath: string, httpClient: HttpClient, useUnionTypes: boolean): Promise<void> {
+    for (const model of models) {
+        const file = path.resolve(outputPath, `${model.name}.ts`);
+        const templateResult = templates.exports.zod({
+            ...model,
+            httpClient,
+            useUnionTypes,
+        });
+        await writeFile(file, format(templateResult));
+    }
+}
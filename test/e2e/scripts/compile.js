@@ -4,14 +4,15 @@ const ts = require('typescript');
 const path = require('path');
 const os = require('os');
 
-function compile(dir) {
+function compile(dir, compilerOptions = {}) {
     const baseDir = `./test/e2e/generated/${dir}/`;
     const tsconfig = {
         compilerOptions: {
             target: 'es6',
             module: 'es6',
             moduleResolution: 'node',
-            lib: ['es6', 'dom'],
+            lib: ['es2018', 'dom'],
+            ...compilerOptions,
         },
         include: ['./index.ts'],
     };
@@ -33,6 +34,7 @@ function compile(dir) {
         });
         console.log(message);
     }
+    return diagnostics;
 }
 
 module.exports = compile;
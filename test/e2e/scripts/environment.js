@@ -0,0 +1,21 @@
+'use strict';
+
+const NodeEnvironment = require('jest-environment-node');
+
+// The node environment of Jest 26 does not expose the AbortController of Node.js, which
+// the tests use to cancel requests and the clients use to stop requests that time out,
+// nor the Blob that binary responses are read into.
+class Environment extends NodeEnvironment {
+    constructor(config, context) {
+        super(config, context);
+        if (typeof AbortController !== 'undefined') {
+            this.global.AbortController = AbortController;
+            this.global.AbortSignal = AbortSignal;
+        }
+        if (typeof Blob !== 'undefined') {
+            this.global.Blob = Blob;
+        }
+    }
+}
+
+module.exports = Environment;
@@ -2,13 +2,15 @@
 
 const OpenAPI = require('../../../dist');
 
-async function generate(dir, version, client, useOptions = false, useUnionTypes = false) {
+async function generate(dir, version, client, useOptions = false, useUnionTypes = false, clientName = undefined, options = {}) {
     await OpenAPI.generate({
         input: `./test/spec/${version}.json`,
         output: `./test/e2e/generated/${dir}/`,
         httpClient: client,
         useOptions,
         useUnionTypes,
+        clientName,
+        ...options,
     });
 }
 
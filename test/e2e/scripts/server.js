@@ -4,6 +4,9 @@ const express = require('express');
 
 let app;
 let server
+let streams = 0;
+let requests = 0;
+const attempts = new Map();
 
 async function start(dir) {
     return new Promise(resolve => {
@@ -24,6 +27,88 @@ async function start(dir) {
             res.send('<script src="js/script.js"></script>');
         });
 
+        // Count the requests of the API calls, so we can test that a request was not sent.
+        app.all('/base/api/*', (req, res, next) => {
+            requests++;
+            next();
+        });
+
+        // Requests with the 'X-Stall' header only receive the headers of the response,
+        // the body never arrives, so we can test the timeout of the clients.
+        app.all('/base/api/*', (req, res, next) => {
+            if (!req.headers['x-stall']) {
+                return next();
+            }
+            res.writeHead(200, {
+                'Content-Type': 'application/json',
+            });
+            res.write('{');
+        });
+
+        // Requests with the 'X-Retry-Id' header fail with a 503 for the number of attempts in the
+        // 'X-Retry-Failures' header (with the 'X-Retry-After' header as their Retry-After header),
+        // or with a network error when the 'X-Retry-Network' header is set, so we can test the
+        // retries of the clients. The echo contains the number of attempts.
+        app.all('/base/api/*', (req, res, next) => {
+            const id = req.headers['x-retry-id'];
+            if (!id) {
+                return next();
+            }
+            const attempt = (attempts.get(id) || 0) + 1;
+            attempts.set(id, attempt);
+            if (attempt > Number(req.headers['x-retry-failures'])) {
+                req.headers['x-attempts'] = String(attempt);
+                return next();
+            }
+            if (req.headers['x-retry-network']) {
+                return req.socket.destroy();
+            }
+            if (req.headers['x-retry-after']) {
+                res.set('Retry-After', req.headers['x-retry-after']);
+            }
+            res.status(503).json({
+                attempts: attempt,
+            });
+        });
+
+        // Requests with an expired token are rejected, until the client refreshes the token,
+        // so we can test the refresh hook of the clients.
+        app.all('/base/api/*', (req, res, next) => {
+            if (req.headers.authorization !== 'Bearer expired') {
+                return next();
+            }
+            res.status(401).json({
+                message: 'The token has expired',
+            });
+        });
+
+        // Requests with the 'X-Response-Body' header receive its value as the JSON body of the
+        // response, so we can test the validation of the responses of the clients.
+        app.all('/base/api/*', (req, res, next) => {
+            const body = req.headers['x-response-body'];
+            if (!body) {
+                return next();
+            }
+            res.type('application/json').send(body);
+        });
+
+        // A server-sent event stream that never ends, so we can test that the clients
+        // stop the stream when the iteration is stopped. The first event has multiple
+        // data lines and one of its "\r\n" line breaks is split over two chunks.
+        app.get('/base/api/v1.0/stream/events', (req, res) => {
+            streams++;
+            res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+            });
+            res.write('id: 1\r\ndata: {"prop":\r');
+            const timer = setInterval(() => res.write('data: {"prop": "World"}\n\n'), 20);
+            setTimeout(() => res.write('\ndata: "Hello"}\r\n\r\n'), 10);
+            req.on('close', () => {
+                clearInterval(timer);
+                streams--;
+            });
+        });
+
         // Register an 'echo' server that just returns all data from the API calls.
         // Although this might not be a 'correct' response, we can use this to test
         // the majority of API calls.
@@ -50,7 +135,17 @@ async function stop() {
     });
 }
 
+function getStreams() {
+    return streams;
+}
+
+function getRequests() {
+    return requests;
+}
+
 module.exports = {
     start,
     stop,
+    getStreams,
+    getRequests,
 };
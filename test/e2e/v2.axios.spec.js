@@ -0,0 +1,59 @@
+'use strict';
+
+const generate = require('./scripts/generate');
+const copy = require('./scripts/copy');
+const compile = require('./scripts/compile');
+const server = require('./scripts/server');
+
+describe('v2.axios', () => {
+
+    beforeAll(async () => {
+        await generate('v2/axios', 'v2', 'axios');
+        compile('v2/axios');
+        await server.start('v2/axios');
+    }, 30000);
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it('complexService', async () => {
+        const {ComplexService} = require('./generated/v2/axios/index.js');
+        const result = await ComplexService.complexTypes({
+            first: {
+                second: {
+                    third: 'Hello World!'
+                }
+            }
+        });
+        expect(result).toBeDefined();
+    });
+
+    it('can abort the request', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v2/axios/index.js');
+            const promise = SimpleService.getCallWithoutParametersAndResponse();
+            promise.cancel();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('can abort the request with a signal', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v2/axios/index.js');
+            const controller = new AbortController();
+            const promise = SimpleService.getCallWithoutParametersAndResponse({signal: controller.signal});
+            controller.abort();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+});
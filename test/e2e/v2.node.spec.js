@@ -29,4 +29,31 @@ describe('v2.node', () => {
         expect(result).toBeDefined();
     });
 
+    it('can abort the request', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v2/node/index.js');
+            const promise = SimpleService.getCallWithoutParametersAndResponse();
+            promise.cancel();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('can abort the request with a signal', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v2/node/index.js');
+            const controller = new AbortController();
+            const promise = SimpleService.getCallWithoutParametersAndResponse({signal: controller.signal});
+            controller.abort();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
 });
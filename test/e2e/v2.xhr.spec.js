@@ -33,4 +33,18 @@ describe('v2.xhr', () => {
         });
         expect(result).toBeDefined();
     });
+
+    it('can abort the request', async () => {
+        let error;
+        try {
+            await browser.evaluate(async () => {
+                const promise = window.api.SimpleService.getCallWithoutParametersAndResponse();
+                promise.cancel();
+                await promise;
+            });
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
 });
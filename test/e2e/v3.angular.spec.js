@@ -0,0 +1,23 @@
+'use strict';
+
+const generate = require('./scripts/generate');
+const compile = require('./scripts/compile');
+
+describe('v3.angular', () => {
+
+    it('type-checks the injectable services', async () => {
+        await generate('v3/angular', 'v3', 'angular');
+        const diagnostics = compile('v3/angular', {
+            experimentalDecorators: true,
+        });
+        expect(diagnostics).toHaveLength(0);
+    }, 30000);
+
+    it('type-checks the injectable services with options and union types', async () => {
+        await generate('v3/angular-options', 'v3', 'angular', true, true);
+        const diagnostics = compile('v3/angular-options', {
+            experimentalDecorators: true,
+        });
+        expect(diagnostics).toHaveLength(0);
+    }, 30000);
+});
@@ -0,0 +1,214 @@
+'use strict';
+
+const generate = require('./scripts/generate');
+const copy = require('./scripts/copy');
+const compile = require('./scripts/compile');
+const server = require('./scripts/server');
+
+describe('v3.axios', () => {
+
+    beforeAll(async () => {
+        await generate('v3/axios', 'v3', 'axios', false, false, undefined, {
+            useMediaTypeOverloads: true,
+        });
+        compile('v3/axios');
+        await server.start('v3/axios');
+    }, 30000);
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it('complexService', async () => {
+        const {ComplexService} = require('./generated/v3/axios/index.js');
+        const result = await ComplexService.complexTypes({
+            first: {
+                second: {
+                    third: 'Hello World!'
+                }
+            }
+        });
+        expect(result).toBeDefined();
+    });
+
+    it('can abort the request', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v3/axios/index.js');
+            const promise = SimpleService.getCallWithoutParametersAndResponse();
+            promise.cancel();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('can abort the request with a signal', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v3/axios/index.js');
+            const controller = new AbortController();
+            const promise = SimpleService.getCallWithoutParametersAndResponse({signal: controller.signal});
+            controller.abort();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('runs the interceptors', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/axios/index.js');
+        OpenAPI.INTERCEPTORS.request.push(options => ({
+            ...options,
+            headers: {
+                ...options.headers,
+                'X-Interceptor': 'request',
+            },
+        }));
+        OpenAPI.INTERCEPTORS.response.push(result => ({
+            ...result,
+            body: {
+                ...result.body,
+                intercepted: true,
+            },
+        }));
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.INTERCEPTORS.request.length = 0;
+        OpenAPI.INTERCEPTORS.response.length = 0;
+        expect(result.headers['x-interceptor']).toBe('request');
+        expect(result.intercepted).toBe(true);
+    });
+
+    it('resolves the token for each request', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/axios/index.js');
+        OpenAPI.TOKEN = async options => `token-${options.method}`;
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.TOKEN = undefined;
+        expect(result.headers.authorization).toBe('Bearer token-GET');
+    });
+
+    it('sends the credentials of the security scheme', async () => {
+        const {OpenAPI, SecurityService} = require('./generated/v3/axios/index.js');
+        OpenAPI.API_KEYS = {
+            api_key_header: 'header-key',
+        };
+        const result = await SecurityService.callWithApiKey();
+        OpenAPI.API_KEYS = undefined;
+        expect(result.headers['x-api-key']).toBe('header-key');
+    });
+
+    it('serializes the parameters using their style', async () => {
+        const {StylesService} = require('./generated/v3/axios/index.js');
+        const result = await StylesService.callWithParameterStyles(['a', 'b'], ['c', 'd'], [1, 2], ['x', 'y'], {
+            name: 'foo',
+            age: 3,
+        }, {
+            name: 'bar',
+        });
+        expect(result.path).toBe('/base/api/v1.0/styles/.a,b/;matrix=c;matrix=d');
+        expect(result.query.ids).toBe('1,2');
+        expect(result.query.tags).toBe('x|y');
+        expect(result.query.filter).toEqual({name: 'foo', age: '3'});
+        expect(result.headers['x-filter']).toBe('name=bar');
+    });
+
+    it('sends the cookies in the cookie header', async () => {
+        const {OpenAPI, SecurityService} = require('./generated/v3/axios/index.js');
+        OpenAPI.API_KEYS = {
+            api_key_query: 'query-key',
+            api_key_cookie: 'cookie-key',
+        };
+        const result = await SecurityService.callWithApiKey();
+        OpenAPI.API_KEYS = undefined;
+        expect(result.headers.cookie).toBe('session=cookie-key');
+    });
+
+    it('sends the request body using its media type', async () => {
+        const {MediaTypesService} = require('./generated/v3/axios/index.js');
+        const json = await MediaTypesService.postWithMediaTypes({ prop: 'Hello World!' });
+        const form = await MediaTypesService.postWithMediaTypes({ prop: 'Hello World!' }, 'application/x-www-form-urlencoded');
+        const multipart = await MediaTypesService.putWithMultipartEncoding({ description: 'Hello World!' });
+        expect(json.headers['content-type']).toBe('application/json');
+        expect(form.headers['content-type']).toBe('application/x-www-form-urlencoded');
+        expect(multipart.headers['content-type']).toContain('multipart/form-data;');
+    });
+
+    it('uploads a file stream as multipart form data', async () => {
+        const fs = require('fs');
+        const {UploadService} = require('./generated/v3/axios/index.js');
+        const result = await UploadService.uploadFile(fs.createReadStream(__filename));
+        expect(result.method).toBe('POST');
+        expect(result.headers['content-type']).toContain('multipart/form-data; boundary=');
+        expect(Number(result.headers['content-length'])).toBeGreaterThan(fs.statSync(__filename).size);
+    });
+
+    it('reads binary responses as a blob', async () => {
+        const {DownloadService} = require('./generated/v3/axios/index.js');
+        const result = await DownloadService.downloadFile('1');
+        expect(result instanceof Blob).toBeTruthy();
+        expect(JSON.parse(await result.text()).path).toBe('/base/api/v1.0/download/1');
+    });
+
+    it('uses the injected axios instance', async () => {
+        const axios = require('axios');
+        const {OpenAPI, SimpleService} = require('./generated/v3/axios/index.js');
+        OpenAPI.AXIOS = axios.create({
+            headers: {
+                'X-Instance': 'axios',
+            },
+        });
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.AXIOS = undefined;
+        expect(result.headers['x-instance']).toBe('axios');
+    });
+
+    it('maps axios errors to an api error', async () => {
+        const axios = require('axios');
+        const {ApiError, OpenAPI, SimpleService} = require('./generated/v3/axios/index.js');
+        OpenAPI.AXIOS = axios.create();
+        OpenAPI.AXIOS.interceptors.request.use(config => ({
+            ...config,
+            url: config.url.replace('/base/api/', '/base/missing/'),
+        }));
+        let error;
+        try {
+            await SimpleService.getCallWithoutParametersAndResponse();
+        } catch (e) {
+            error = e;
+        }
+        OpenAPI.AXIOS = undefined;
+        expect(error).toBeInstanceOf(ApiError);
+        expect(error.status).toBe(404);
+    });
+
+    it('reads streaming responses as an async iterable', async () => {
+        const {StreamService} = require('./generated/v3/axios/index.js');
+        const items = [];
+        for await (const item of await StreamService.streamItems()) {
+            items.push(item);
+        }
+        expect(items.length).toBe(1);
+        expect(items[0].path).toBe('/base/api/v1.0/stream/items');
+    });
+
+    it('reads server-sent events and stops the stream on break', async () => {
+        const {StreamService} = require('./generated/v3/axios/index.js');
+        const events = [];
+        for await (const event of await StreamService.streamEvents()) {
+            events.push(event);
+            if (events.length === 3) {
+                break;
+            }
+        }
+        expect(events).toEqual([
+            {prop: 'Hello'},
+            {prop: 'World'},
+            {prop: 'World'},
+        ]);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(server.getStreams()).toBe(0);
+    });
+
+});
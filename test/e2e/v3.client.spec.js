@@ -0,0 +1,44 @@
+'use strict';
+
+const generate = require('./scripts/generate');
+const compile = require('./scripts/compile');
+const server = require('./scripts/server');
+
+describe('v3.client', () => {
+
+    beforeAll(async () => {
+        await generate('v3/client', 'v3', 'node', false, false, 'AppClient');
+        compile('v3/client');
+        await server.start('v3/client');
+    }, 30000);
+
+    afterAll(async () => {
+        await server.stop();
+    });
+
+    it('uses the config of the client', async () => {
+        const {AppClient} = require('./generated/v3/client/index.js');
+        const client = new AppClient({
+            VERSION: '2.0',
+            TOKEN: 'MY_TOKEN',
+            HEADERS: {
+                'X-Tenant': 'tenant',
+            },
+        });
+        const result = await client.simple.getCallWithoutParametersAndResponse();
+        expect(result.path).toBe('/base/api/v2.0/simple');
+        expect(result.headers.authorization).toBe('Bearer MY_TOKEN');
+        expect(result.headers['x-tenant']).toBe('tenant');
+    });
+
+    it('does not share the config between clients', async () => {
+        const {AppClient, OpenAPI} = require('./generated/v3/client/index.js');
+        const first = new AppClient({ TOKEN: 'FIRST' });
+        const second = new AppClient();
+        const result = await second.simple.getCallWithoutParametersAndResponse();
+        expect(first.config.TOKEN).toBe('FIRST');
+        expect(OpenAPI.TOKEN).toBeUndefined();
+        expect(result.headers.authorization).toBeUndefined();
+    });
+
+});
@@ -37,4 +37,57 @@ describe('v3.fetch', () => {
         });
         expect(result).toBeDefined();
     });
+
+    it('can abort the request', async () => {
+        let error;
+        try {
+            await browser.evaluate(async () => {
+                const promise = window.api.SimpleService.getCallWithoutParametersAndResponse();
+                promise.cancel();
+                await promise;
+            });
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('writes the cookies to the document', async () => {
+        const result = await browser.evaluate(async () => {
+            window.api.OpenAPI.API_KEYS = {
+                api_key_query: 'query-key',
+                api_key_cookie: 'cookie-key',
+            };
+            const result = await window.api.SecurityService.callWithApiKey();
+            window.api.OpenAPI.API_KEYS = undefined;
+            return result;
+        });
+        expect(result.headers.cookie).toContain('session=cookie-key');
+    });
+
+    it('times out when the body of the response stalls', async () => {
+        const result = await browser.evaluate(async () => {
+            window.api.OpenAPI.HEADERS = {
+                'X-Stall': 'true',
+            };
+            window.api.OpenAPI.TIMEOUT = 100;
+            try {
+                await window.api.SimpleService.getCallWithoutParametersAndResponse();
+            } catch (e) {
+                return e.name;
+            } finally {
+                window.api.OpenAPI.HEADERS = undefined;
+                window.api.OpenAPI.TIMEOUT = undefined;
+            }
+        });
+        expect(result).toBe('TimeoutError');
+    });
+
+    it('reads binary responses as a blob', async () => {
+        const result = await browser.evaluate(async () => {
+            const result = await window.api.DownloadService.downloadFile('1');
+            return result instanceof Blob && JSON.parse(await result.text());
+        });
+        expect(result.path).toBe('/base/api/v1.0/download/1');
+    });
 });
@@ -8,7 +8,10 @@ const server = require('./scripts/server');
 describe('v3.node', () => {
 
     beforeAll(async () => {
-        await generate('v3/node', 'v3', 'node');
+        await generate('v3/node', 'v3', 'node', false, false, undefined, {
+            useMediaTypeOverloads: true,
+            useValidation: true,
+        });
         compile('v3/node');
         await server.start('v3/node');
     }, 30000);
@@ -29,4 +32,460 @@ describe('v3.node', () => {
         expect(result).toBeDefined();
     });
 
+    it('can abort the request', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v3/node/index.js');
+            const promise = SimpleService.getCallWithoutParametersAndResponse();
+            promise.cancel();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('can abort the request with a signal', async () => {
+        let error;
+        try {
+            const {SimpleService} = require('./generated/v3/node/index.js');
+            const controller = new AbortController();
+            const promise = SimpleService.getCallWithoutParametersAndResponse({signal: controller.signal});
+            controller.abort();
+            await promise;
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('runs the interceptors', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        OpenAPI.INTERCEPTORS.request.push(options => ({
+            ...options,
+            headers: {
+                ...options.headers,
+                'X-Interceptor': 'request',
+            },
+        }));
+        OpenAPI.INTERCEPTORS.response.push(result => ({
+            ...result,
+            body: {
+                ...result.body,
+                intercepted: true,
+            },
+        }));
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.INTERCEPTORS.request.length = 0;
+        OpenAPI.INTERCEPTORS.response.length = 0;
+        expect(result.headers['x-interceptor']).toBe('request');
+        expect(result.intercepted).toBe(true);
+    });
+
+    it('resolves the token for each request', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        OpenAPI.TOKEN = async options => `token-${options.method}`;
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.TOKEN = undefined;
+        expect(result.headers.authorization).toBe('Bearer token-GET');
+    });
+
+    it('refreshes the token once when the request is unauthorized', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        let token = 'expired';
+        let refreshes = 0;
+        OpenAPI.TOKEN = async () => token;
+        OpenAPI.REFRESH = async () => {
+            refreshes++;
+            token = 'refreshed';
+        };
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.TOKEN = undefined;
+        OpenAPI.REFRESH = undefined;
+        expect(refreshes).toBe(1);
+        expect(result.headers.authorization).toBe('Bearer refreshed');
+    });
+
+    it('shares the refresh of concurrent requests', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        let token = 'expired';
+        let refreshes = 0;
+        OpenAPI.TOKEN = async () => token;
+        OpenAPI.REFRESH = async () => {
+            refreshes++;
+            await new Promise(resolve => setTimeout(resolve, 50));
+            token = 'refreshed';
+        };
+        const results = await Promise.all([
+            SimpleService.getCallWithoutParametersAndResponse(),
+            SimpleService.postCallWithoutParametersAndResponse(),
+            SimpleService.putCallWithoutParametersAndResponse(),
+        ]);
+        OpenAPI.TOKEN = undefined;
+        OpenAPI.REFRESH = undefined;
+        expect(refreshes).toBe(1);
+        expect(results.map(result => result.headers.authorization)).toEqual([
+            'Bearer refreshed',
+            'Bearer refreshed',
+            'Bearer refreshed',
+        ]);
+    });
+
+    it('does not refresh again when the refreshed request is unauthorized', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        let refreshes = 0;
+        OpenAPI.TOKEN = async () => 'expired';
+        OpenAPI.REFRESH = async () => {
+            refreshes++;
+        };
+        let error;
+        try {
+            await SimpleService.getCallWithoutParametersAndResponse();
+        } catch (e) {
+            error = e;
+        }
+        OpenAPI.TOKEN = undefined;
+        OpenAPI.REFRESH = undefined;
+        expect(refreshes).toBe(1);
+        expect(error.status).toBe(401);
+    });
+
+    it('sends the credentials of the security scheme', async () => {
+        const {OpenAPI, SecurityService} = require('./generated/v3/node/index.js');
+        OpenAPI.API_KEYS = {
+            api_key_header: 'header-key',
+        };
+        const result = await SecurityService.callWithApiKey();
+        OpenAPI.API_KEYS = undefined;
+        expect(result.headers['x-api-key']).toBe('header-key');
+    });
+
+    it('serializes the parameters using their style', async () => {
+        const {StylesService} = require('./generated/v3/node/index.js');
+        const result = await StylesService.callWithParameterStyles(['a', 'b'], ['c', 'd'], [1, 2], ['x', 'y'], {
+            name: 'foo',
+            age: 3,
+        }, {
+            name: 'bar',
+        });
+        expect(result.path).toBe('/base/api/v1.0/styles/.a,b/;matrix=c;matrix=d');
+        expect(result.query.ids).toBe('1,2');
+        expect(result.query.tags).toBe('x|y');
+        expect(result.query.filter).toEqual({name: 'foo', age: '3'});
+        expect(result.headers['x-filter']).toBe('name=bar');
+    });
+
+    it('sends the cookies in the cookie header', async () => {
+        const {OpenAPI, SecurityService} = require('./generated/v3/node/index.js');
+        OpenAPI.API_KEYS = {
+            api_key_query: 'query-key',
+            api_key_cookie: 'cookie-key',
+        };
+        const result = await SecurityService.callWithApiKey();
+        OpenAPI.API_KEYS = undefined;
+        expect(result.headers.cookie).toBe('session=cookie-key');
+    });
+
+    it('sends the request body using its media type', async () => {
+        const {MediaTypesService} = require('./generated/v3/node/index.js');
+        const json = await MediaTypesService.postWithMediaTypes({ prop: 'Hello World!' });
+        const form = await MediaTypesService.postWithMediaTypes({ prop: 'Hello World!' }, 'application/x-www-form-urlencoded');
+        const multipart = await MediaTypesService.putWithMultipartEncoding({ description: 'Hello World!' });
+        expect(json.headers['content-type']).toBe('application/json');
+        expect(form.headers['content-type']).toBe('application/x-www-form-urlencoded');
+        expect(multipart.headers['content-type']).toContain('multipart/form-data;');
+    });
+
+    it('uploads a file stream as multipart form data', async () => {
+        const fs = require('fs');
+        const {UploadService} = require('./generated/v3/node/index.js');
+        const result = await UploadService.uploadFile(fs.createReadStream(__filename));
+        expect(result.method).toBe('POST');
+        expect(result.headers['content-type']).toContain('multipart/form-data; boundary=');
+    });
+
+    it('keeps the connections alive', async () => {
+        const {SimpleService} = require('./generated/v3/node/index.js');
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        expect(result.headers.connection).toBe('keep-alive');
+    });
+
+    it('sends the requests with the agent of the config', async () => {
+        const http = require('http');
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        const agent = new http.Agent();
+        const createConnection = jest.spyOn(agent, 'createConnection');
+        OpenAPI.AGENT = agent;
+        await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.AGENT = undefined;
+        expect(createConnection).toHaveBeenCalled();
+    });
+
+    it('retries a request that fails with a transient status', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        OpenAPI.RETRY = {
+            delay: 10,
+        };
+        OpenAPI.HEADERS = {
+            'X-Retry-Id': 'transient',
+            'X-Retry-Failures': '1',
+        };
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.RETRY = undefined;
+        OpenAPI.HEADERS = undefined;
+        expect(result.headers['x-attempts']).toBe('2');
+    });
+
+    it('retries a request that fails with a network error', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        OpenAPI.RETRY = {
+            delay: 10,
+        };
+        OpenAPI.HEADERS = {
+            'X-Retry-Id': 'network',
+            'X-Retry-Failures': '1',
+            'X-Retry-Network': 'true',
+        };
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.RETRY = undefined;
+        OpenAPI.HEADERS = undefined;
+        expect(result.headers['x-attempts']).toBe('2');
+    });
+
+    it('waits for the Retry-After header of the response', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        OpenAPI.RETRY = {
+            delay: 10,
+        };
+        OpenAPI.HEADERS = {
+            'X-Retry-Id': 'retry-after',
+            'X-Retry-Failures': '1',
+            'X-Retry-After': '1',
+        };
+        const start = Date.now();
+        const result = await SimpleService.getCallWithoutParametersAndResponse();
+        OpenAPI.RETRY = undefined;
+        OpenAPI.HEADERS = undefined;
+        expect(result.headers['x-attempts']).toBe('2');
+        expect(Date.now() - start).toBeGreaterThanOrEqual(1000);
+    });
+
+    it('does not retry a POST request by default', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        OpenAPI.RETRY = {
+            delay: 10,
+        };
+        OpenAPI.HEADERS = {
+            'X-Retry-Id': 'post',
+            'X-Retry-Failures': '1',
+        };
+        let error;
+        try {
+            await SimpleService.postCallWithoutParametersAndResponse();
+        } catch (e) {
+            error = e;
+        }
+        OpenAPI.RETRY = undefined;
+        OpenAPI.HEADERS = undefined;
+        expect(error.status).toBe(503);
+        expect(error.body.attempts).toBe(1);
+    });
+
+    it('retries a POST request with the retry policy of the call', async () => {
+        const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+        OpenAPI.HEADERS = {
+            'X-Retry-Id': 'post-call',
+            'X-Retry-Failures': '2',
+        };
+        const result = await SimpleService.postCallWithoutParametersAndResponse({
+            retry: {
+                delay: 10,
+                methods: ['POST'],
+            },
+        });
+        OpenAPI.HEADERS = undefined;
+        expect(result.headers['x-attempts']).toBe('3');
+    });
+
+    it('times out when the body of the response stalls', async () => {
+        let error;
+        try {
+            const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+            OpenAPI.HEADERS = {
+                'X-Stall': 'true',
+            };
+            OpenAPI.TIMEOUT = 100;
+            try {
+                await SimpleService.getCallWithoutParametersAndResponse();
+            } finally {
+                OpenAPI.HEADERS = undefined;
+                OpenAPI.TIMEOUT = undefined;
+            }
+        } catch (e) {
+            error = e;
+        }
+        expect(error.name).toBe('TimeoutError');
+        expect(error.message).toBe('Request timed out after 100ms');
+    });
+
+    it('times out with the timeout of the call', async () => {
+        let error;
+        try {
+            const {OpenAPI, SimpleService} = require('./generated/v3/node/index.js');
+            OpenAPI.HEADERS = {
+                'X-Stall': 'true',
+            };
+            try {
+                await SimpleService.getCallWithoutParametersAndResponse({timeout: 50});
+            } finally {
+                OpenAPI.HEADERS = undefined;
+            }
+        } catch (e) {
+            error = e;
+        }
+        expect(error.name).toBe('TimeoutError');
+        expect(error.message).toBe('Request timed out after 50ms');
+    });
+
+    it('validates the size and uniqueness of arrays and zero limits', async () => {
+        const {validate} = require('./generated/v3/node/core/validate.js');
+        // The schema of ModelWithConstraints, as written by --exportSchemas
+        const schema = {
+            properties: {
+                tags: {
+                    type: 'Array',
+                    contains: {
+                        type: 'string',
+                    },
+                    maxItems: 3,
+                    minItems: 1,
+                    uniqueItems: true,
+                },
+                debit: {
+                    type: 'number',
+                    maximum: 0,
+                },
+                credit: {
+                    type: 'number',
+                    minimum: 0,
+                    exclusiveMinimum: true,
+                },
+            },
+        };
+        expect(validate(schema, {tags: ['a', 'b'], debit: 0, credit: 1})).toEqual([]);
+        expect(validate(schema, {tags: [], debit: 1, credit: 0})).toEqual([
+            {path: '$.tags', message: 'must have at least 1 items'},
+            {path: '$.debit', message: 'must be less than or equal to 0'},
+            {path: '$.credit', message: 'must be greater than 0'},
+        ]);
+        expect(validate(schema, {tags: ['a', 'b', 'a', 'c']})).toEqual([
+            {path: '$.tags', message: 'must have at most 3 items'},
+            {path: '$.tags', message: 'must have unique items'},
+        ]);
+    });
+
+    it('validates the responses against the schemas of the operation', async () => {
+        const {OpenAPI, ReadWriteService} = require('./generated/v3/node/index.js');
+        OpenAPI.VALIDATE_RESPONSES = true;
+        OpenAPI.HEADERS = {
+            'X-Response-Body': JSON.stringify({
+                user: {id: 1, name: 'User'},
+                users: [{id: 1.5}, {id: 2, name: 2}],
+            }),
+        };
+        let error;
+        try {
+            await ReadWriteService.postReadWrite({});
+        } catch (e) {
+            error = e;
+        }
+        OpenAPI.HEADERS = {
+            'X-Response-Body': JSON.stringify({
+                user: {id: 1, name: 'User'},
+            }),
+        };
+        const result = await ReadWriteService.postReadWrite({});
+        OpenAPI.VALIDATE_RESPONSES = false;
+        OpenAPI.HEADERS = undefined;
+        expect(error.name).toBe('ValidationError');
+        expect(error.result.status).toBe(200);
+        expect(error.errors).toEqual([
+            {path: '$.users[0].id', message: 'must be an integer'},
+            {path: '$.users[0].name', message: 'is required'},
+            {path: '$.users[1].name', message: 'must be a string'},
+        ]);
+        expect(result).toEqual({
+            user: {id: 1, name: 'User'},
+        });
+    });
+
+    it('rejects an invalid request before it is sent', async () => {
+        const {OpenAPI, DefaultsService, ReadWriteService} = require('./generated/v3/node/index.js');
+        OpenAPI.VALIDATE_REQUESTS = true;
+        const requests = server.getRequests();
+        let parametersError;
+        try {
+            await DefaultsService.callWithDefaultParameters('Hello', 'World', true, 'Info');
+        } catch (e) {
+            parametersError = e;
+        }
+        let bodyError;
+        try {
+            await ReadWriteService.postReadWrite({user: {name: 1}});
+        } catch (e) {
+            bodyError = e;
+        }
+        const sent = server.getRequests() - requests;
+        await ReadWriteService.postReadWrite({user: {name: 'User', password: 'secret'}});
+        OpenAPI.VALIDATE_REQUESTS = false;
+        expect(sent).toBe(0);
+        expect(server.getRequests() - requests).toBe(1);
+        expect(parametersError.name).toBe('ValidationError');
+        expect(parametersError.result).toBeUndefined();
+        expect(parametersError.errors).toEqual([
+            {path: '$.query.parameterNumber', message: 'must be a number'},
+            {path: '$.query.parameterEnum', message: 'must be one of "Success", "Warning", "Error"'},
+        ]);
+        expect(bodyError.name).toBe('ValidationError');
+        expect(bodyError.errors).toEqual([
+            {path: '$.body.user.name', message: 'must be a string'},
+            {path: '$.body.user.password', message: 'is required'},
+        ]);
+    });
+
+    it('reads binary responses as a buffer', async () => {
+        const {DownloadService} = require('./generated/v3/node/index.js');
+        const result = await DownloadService.downloadFile('1');
+        expect(Buffer.isBuffer(result)).toBeTruthy();
+        expect(JSON.parse(result.toString()).path).toBe('/base/api/v1.0/download/1');
+    });
+
+    it('reads streaming responses as an async iterable', async () => {
+        const {StreamService} = require('./generated/v3/node/index.js');
+        const items = [];
+        for await (const item of await StreamService.streamItems()) {
+            items.push(item);
+        }
+        expect(items.length).toBe(1);
+        expect(items[0].path).toBe('/base/api/v1.0/stream/items');
+    });
+
+    it('reads server-sent events and stops the stream on break', async () => {
+        const {StreamService} = require('./generated/v3/node/index.js');
+        const events = [];
+        for await (const event of await StreamService.streamEvents()) {
+            events.push(event);
+            if (events.length === 3) {
+                break;
+            }
+        }
+        expect(events).toEqual([
+            {prop: 'Hello'},
+            {prop: 'World'},
+            {prop: 'World'},
+        ]);
+        await new Promise(resolve => setTimeout(resolve, 100));
+        expect(server.getStreams()).toBe(0);
+    });
+
 });
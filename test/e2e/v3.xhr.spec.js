@@ -33,4 +33,57 @@ describe('v3.xhr', () => {
         });
         expect(result).toBeDefined();
     });
+
+    it('can abort the request', async () => {
+        let error;
+        try {
+            await browser.evaluate(async () => {
+                const promise = window.api.SimpleService.getCallWithoutParametersAndResponse();
+                promise.cancel();
+                await promise;
+            });
+        } catch (e) {
+            error = e.message;
+        }
+        expect(error).toContain('Request aborted');
+    });
+
+    it('writes the cookies to the document', async () => {
+        const result = await browser.evaluate(async () => {
+            window.api.OpenAPI.API_KEYS = {
+                api_key_query: 'query-key',
+                api_key_cookie: 'cookie-key',
+            };
+            const result = await window.api.SecurityService.callWithApiKey();
+            window.api.OpenAPI.API_KEYS = undefined;
+            return result;
+        });
+        expect(result.headers.cookie).toContain('session=cookie-key');
+    });
+
+    it('reads binary responses as a blob', async () => {
+        const result = await browser.evaluate(async () => {
+            const result = await window.api.DownloadService.downloadFile('1');
+            return result instanceof Blob && JSON.parse(await result.text());
+        });
+        expect(result.path).toBe('/base/api/v1.0/download/1');
+    });
+
+    it('retries a request that fails with a network error', async () => {
+        const result = await browser.evaluate(async () => {
+            window.api.OpenAPI.RETRY = {
+                delay: 10,
+            };
+            window.api.OpenAPI.HEADERS = {
+                'X-Retry-Id': 'xhr-network',
+                'X-Retry-Failures': '1',
+                'X-Retry-Network': 'true',
+            };
+            const result = await window.api.SimpleService.getCallWithoutParametersAndResponse();
+            window.api.OpenAPI.RETRY = undefined;
+            window.api.OpenAPI.HEADERS = undefined;
+            return result;
+        });
+        expect(result.headers['x-attempts']).toBe('2');
+    });
 });
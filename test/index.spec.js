@@ -33,6 +33,7 @@ describe('v3', () => {
             httpClient: OpenAPI.HttpClient.FETCH,
             useOptions: false,
             useUnionTypes: false,
+            useValidation: true,
             exportCore: true,
             exportSchemas: true,
             exportModels: true,
@@ -44,4 +45,45 @@ describe('v3', () => {
             expect(content).toMatchSnapshot(file);
         });
     });
+
+    it('should generate zod schemas', async () => {
+        await OpenAPI.generate({
+            input: './test/spec/v3.json',
+            output: './test/generated/v3-zod/',
+            httpClient: OpenAPI.HttpClient.FETCH,
+            useOptions: false,
+            useUnionTypes: false,
+            exportCore: false,
+            exportSchemas: false,
+            exportModels: true,
+            exportServices: false,
+            exportZod: true,
+        });
+
+        glob.sync('./test/generated/v3-zod/zod/**/*.ts').forEach(file => {
+            const content = fs.readFileSync(file, 'utf8').toString();
+            expect(content).toMatchSnapshot(file);
+        });
+    });
+});
+
+describe('v3.1', () => {
+    it('should generate', async () => {
+        await OpenAPI.generate({
+            input: './test/spec/v3.1.json',
+            output: './test/generated/v3.1/',
+            httpClient: OpenAPI.HttpClient.FETCH,
+            useOptions: false,
+            useUnionTypes: false,
+            exportCore: true,
+            exportSchemas: true,
+            exportModels: true,
+            exportServices: true,
+        });
+
+        glob.sync('./test/generated/v3.1/**/*.ts').forEach(file => {
+            const content = fs.readFileSync(file, 'utf8').toString();
+            expect(content).toMatchSnapshot(file);
+        });
+    });
 });